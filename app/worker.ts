@@ -1,10 +1,56 @@
 import {
   pipeline,
   AutomaticSpeechRecognitionPipeline,
+  AutoModel,
+  AutoModelForAudioFrameClassification,
+  AutoProcessor,
+  LogitsProcessor,
+  LogitsProcessorList,
+  PreTrainedModel,
+  Tensor,
+  env,
 } from "@huggingface/transformers";
+import { AUTO_DETECT_LANGUAGE, type TranscriptionTask } from "@/lib/languages";
+import {
+  mapToSourceTime,
+  WHISPER_SAMPLING_RATE,
+  type DecodedAudioWindow,
+} from "@/lib/audio-utils";
+import {
+  DEFAULT_MODEL,
+  LOCAL_MODEL_PATH,
+  getModelKey,
+  splitModelUrl,
+  type ModelSelection,
+} from "@/lib/models";
 
 type DeviceType = "webgpu" | "wasm";
 
+const SAMPLING_RATE = WHISPER_SAMPLING_RATE;
+// Whisper only looks at 30 seconds of audio at a time, so that is all we feed
+// into language detection.
+const LANGUAGE_DETECTION_SAMPLES = SAMPLING_RATE * 30;
+
+interface WhisperGenerationConfig {
+  decoder_start_token_id: number;
+  lang_to_id?: Record<string, number>;
+  task_to_id?: Record<string, number>;
+  no_timestamps_token_id?: number;
+}
+
+// Whisper reads at most half of its 448 token context as previous text
+const MAX_PROMPT_TOKENS = 223;
+
+/**
+ * English-only checkpoints (*.en) reject `language` and `task`, so those
+ * options are only passed to multilingual models.
+ */
+function isMultilingual(transcriber: AutomaticSpeechRecognitionPipeline): boolean {
+  const generationConfig = transcriber.model
+    .generation_config as unknown as WhisperGenerationConfig | null;
+  return Object.keys(generationConfig?.lang_to_id ?? {}).length > 0;
+}
+
 // Device configurations optimized like sample app
 const PER_DEVICE_CONFIG = {
   webgpu: {
@@ -20,11 +66,46 @@ const PER_DEVICE_CONFIG = {
   },
 };
 
+const DEFAULT_REMOTE_HOST = env.remoteHost;
+const DEFAULT_REMOTE_PATH_TEMPLATE = env.remotePathTemplate;
+
+/**
+ * Points transformers.js at the source of the selected model and returns the
+ * id to pass to `pipeline()`. `env` is global, so this runs before every load.
+ */
+function configureModelSource(model: ModelSelection): string {
+  const id = model.id.trim();
+
+  switch (model.source) {
+    case "local":
+      env.allowLocalModels = true;
+      env.allowRemoteModels = false;
+      env.localModelPath = LOCAL_MODEL_PATH;
+      return id;
+
+    case "url": {
+      const { host, name } = splitModelUrl(id);
+      env.allowLocalModels = false;
+      env.allowRemoteModels = true;
+      env.remoteHost = host;
+      env.remotePathTemplate = "{model}/";
+      return name;
+    }
+
+    default:
+      env.allowLocalModels = false;
+      env.allowRemoteModels = true;
+      env.remoteHost = DEFAULT_REMOTE_HOST;
+      env.remotePathTemplate = DEFAULT_REMOTE_PATH_TEMPLATE;
+      return id;
+  }
+}
+
 /**
  * Simplified singleton pattern like the sample app
  */
 class PipelineSingleton {
-  static model_id = "onnx-community/whisper-base_timestamped";
+  static model: ModelSelection = DEFAULT_MODEL;
   static instance: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
 
   static resetInstance(): void {
@@ -38,7 +119,7 @@ class PipelineSingleton {
     if (!this.instance) {
       this.instance = pipeline(
         "automatic-speech-recognition",
-        this.model_id,
+        configureModelSource(this.model),
         {
           ...PER_DEVICE_CONFIG[device],
           ...(progress_callback && { progress_callback }),
@@ -49,11 +130,269 @@ class PipelineSingleton {
   }
 }
 
+// Diarization runs two small models next to Whisper: pyannote segmentation
+// finds who speaks when inside a window (up to three local speakers), and
+// WeSpeaker embeddings link those local speakers across windows.
+const SEGMENTATION_MODEL = "onnx-community/pyannote-segmentation-3.0";
+const SPEAKER_EMBEDDING_MODEL = "onnx-community/wespeaker-voxceleb-resnet34-LM";
+// pyannote's powerset classes: 0 is silence, 1-3 single speakers, 4-6 overlaps
+// (attributed to their first speaker)
+const POWERSET_SPEAKERS = [0, 1, 2, 3, 1, 1, 2];
+const MAX_SINGLE_SPEAKER_CLASS = 3;
+// Local speakers with less clean speech than this reuse the latest speaker
+// instead of producing an unreliable embedding
+const MIN_EMBEDDING_SECONDS = 1;
+// Cosine similarity above which an embedding joins an existing speaker
+const SPEAKER_MATCH_THRESHOLD = 0.5;
+
+interface SegmentationProcessor {
+  (audio: Float32Array): Promise<Record<string, Tensor>>;
+  post_process_speaker_diarization(
+    logits: Tensor,
+    numSamples: number
+  ): Array<Array<{ id: number; start: number; end: number; confidence: number }>>;
+}
+
+interface EmbeddingProcessor {
+  (audio: Float32Array): Promise<Record<string, Tensor>>;
+}
+
+interface DiarizationModels {
+  segmentationProcessor: SegmentationProcessor;
+  segmentationModel: PreTrainedModel;
+  embeddingProcessor: EmbeddingProcessor;
+  embeddingModel: PreTrainedModel;
+}
+
+// Stretch of a window attributed to one run-wide speaker, in window seconds
+interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+class DiarizationSingleton {
+  static instance: Promise<DiarizationModels> | null = null;
+
+  static getInstance(): Promise<DiarizationModels> {
+    if (!this.instance) {
+      // Diarization models always come from the Hub, whatever source the
+      // Whisper model was loaded from
+      configureModelSource({ source: "hub", id: SEGMENTATION_MODEL });
+      const options = { device: "wasm" as const };
+
+      this.instance = Promise.all([
+        AutoProcessor.from_pretrained(SEGMENTATION_MODEL),
+        AutoModelForAudioFrameClassification.from_pretrained(SEGMENTATION_MODEL, options),
+        AutoProcessor.from_pretrained(SPEAKER_EMBEDDING_MODEL),
+        AutoModel.from_pretrained(SPEAKER_EMBEDDING_MODEL, options),
+      ]).then(([segmentationProcessor, segmentationModel, embeddingProcessor, embeddingModel]) => ({
+        segmentationProcessor: segmentationProcessor as unknown as SegmentationProcessor,
+        segmentationModel,
+        embeddingProcessor: embeddingProcessor as unknown as EmbeddingProcessor,
+        embeddingModel,
+      }));
+      this.instance.catch(() => {
+        this.instance = null;
+      });
+    }
+    return this.instance;
+  }
+}
+
+/**
+ * Online clustering of speaker embeddings for one run. Each new embedding
+ * joins the most similar known speaker or starts a new one.
+ */
+class SpeakerTracker {
+  private centroids: Float32Array[] = [];
+  lastSpeaker: string | null = null;
+
+  assign(embedding: Float32Array): string {
+    let bestIndex = -1;
+    let bestSimilarity = -Infinity;
+    this.centroids.forEach((centroid, index) => {
+      const similarity = cosineSimilarity(centroid, embedding);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0 && bestSimilarity >= SPEAKER_MATCH_THRESHOLD) {
+      const centroid = this.centroids[bestIndex];
+      for (let i = 0; i < centroid.length; i++) {
+        centroid[i] += embedding[i];
+      }
+    } else {
+      this.centroids.push(Float32Array.from(embedding));
+      bestIndex = this.centroids.length - 1;
+    }
+
+    this.lastSpeaker = `S${bestIndex + 1}`;
+    return this.lastSpeaker;
+  }
+
+  fallback(): string {
+    if (!this.lastSpeaker) {
+      this.centroids.push(new Float32Array(0));
+      this.lastSpeaker = `S${this.centroids.length}`;
+    }
+    return this.lastSpeaker;
+  }
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    return -1;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA * normB) || 1);
+}
+
+/**
+ * Finds who speaks when in one window and maps pyannote's window-local
+ * speakers onto run-wide ids through their voice embeddings.
+ */
+async function diarizeWindow(
+  models: DiarizationModels,
+  audio: Float32Array,
+  tracker: SpeakerTracker
+): Promise<SpeakerTurn[]> {
+  const inputs = await models.segmentationProcessor(audio);
+  const { logits } = await models.segmentationModel(inputs);
+  const [segments] = models.segmentationProcessor.post_process_speaker_diarization(
+    logits,
+    audio.length
+  );
+  const speechSegments = segments.filter((segment) => segment.id !== 0);
+
+  const localSpeakers = new Map<number, string>();
+  for (const localSpeaker of new Set(speechSegments.map(({ id }) => POWERSET_SPEAKERS[id]))) {
+    // Only clean single-speaker stretches go into the embedding
+    const parts = speechSegments
+      .filter(({ id }) => id === localSpeaker && id <= MAX_SINGLE_SPEAKER_CLASS)
+      .map(({ start, end }) =>
+        audio.subarray(Math.floor(start * SAMPLING_RATE), Math.ceil(end * SAMPLING_RATE))
+      );
+    const length = parts.reduce((total, part) => total + part.length, 0);
+
+    if (length < MIN_EMBEDDING_SECONDS * SAMPLING_RATE) {
+      localSpeakers.set(localSpeaker, tracker.fallback());
+      continue;
+    }
+
+    const speech = new Float32Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      speech.set(part, offset);
+      offset += part.length;
+    }
+
+    const output = await models.embeddingModel(await models.embeddingProcessor(speech));
+    // The exported model has a single output holding the embedding
+    const [embedding] = Object.values(output) as Tensor[];
+    localSpeakers.set(localSpeaker, tracker.assign(embedding.data as Float32Array));
+  }
+
+  return speechSegments.map(({ id, start, end }) => ({
+    speaker: localSpeakers.get(POWERSET_SPEAKERS[id]) ?? tracker.fallback(),
+    start,
+    end,
+  }));
+}
+
+/**
+ * Speaker of the turn containing `time`, or of the closest turn when the word
+ * falls into a gap pyannote marked as silence.
+ */
+function findSpeakerAt(turns: SpeakerTurn[], time: number): string | undefined {
+  let closest: SpeakerTurn | undefined;
+  let closestDistance = Infinity;
+
+  for (const turn of turns) {
+    if (time >= turn.start && time <= turn.end) {
+      return turn.speaker;
+    }
+    const distance = Math.min(Math.abs(time - turn.start), Math.abs(time - turn.end));
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closest = turn;
+    }
+  }
+
+  return closest?.speaker;
+}
+
 let activeDevice: DeviceType | null = null;
+let activeModelKey: string | null = null;
 let loadPromise: Promise<void> | null = null;
-type TranscriptionResult = Awaited<ReturnType<AutomaticSpeechRecognitionPipeline>>;
 
-let transcriptionPromise: Promise<TranscriptionResult> | null = null;
+interface WordChunk {
+  text: string;
+  timestamp: [number, number];
+  // Run-wide speaker id ("S1", "S2", ...) when diarization is enabled
+  speaker?: string;
+  // Mean decoder probability of the word's tokens, 0-1
+  probability?: number;
+}
+
+let transcriptionPromise: Promise<WordChunk[]> | null = null;
+// Runs the main thread asked to stop; checked between windows so the loaded
+// pipeline survives cancellation
+const cancelledRunIds = new Set<number>();
+
+class TranscriptionCancelledError extends Error {
+  constructor() {
+    super("Transcription cancelled");
+    this.name = "TranscriptionCancelledError";
+  }
+}
+
+/**
+ * Audio windows posted by the main thread for one run, in order. The main
+ * thread decodes ahead of the model, so windows may queue up here; `close`
+ * releases a run that is waiting for a window that will never arrive.
+ */
+class WindowQueue {
+  private windows: DecodedAudioWindow[] = [];
+  private waiting: ((window: DecodedAudioWindow | null) => void) | null = null;
+  private closed = false;
+
+  push(window: DecodedAudioWindow): void {
+    if (this.waiting) {
+      this.waiting(window);
+      this.waiting = null;
+    } else {
+      this.windows.push(window);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.waiting?.(null);
+    this.waiting = null;
+  }
+
+  next(): Promise<DecodedAudioWindow | null> {
+    const window = this.windows.shift();
+    if (window || this.closed) {
+      return Promise.resolve(window ?? null);
+    }
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+}
+
+const runWindows = new Map<number, WindowQueue>();
 
 // Handle messages from the main thread - simplified like sample app
 self.addEventListener("message", async (e: MessageEvent) => {
@@ -68,25 +407,270 @@ self.addEventListener("message", async (e: MessageEvent) => {
       await handleRun(data);
       break;
 
+    case "window":
+      // Windows of cancelled or failed runs have no queue and are dropped
+      runWindows.get(data.runId)?.push(data);
+      break;
+
+    case "cancel":
+      cancelledRunIds.add(data.runId);
+      runWindows.get(data.runId)?.close();
+      break;
+
     default:
       console.error(`Unknown message type: ${type}`);
   }
 });
 
+/**
+ * Runs a single decoder step after <|startoftranscript|> and picks the most
+ * likely language token, which is how Whisper itself detects the language.
+ * transformers.js just warns and falls back to English when no language is given.
+ */
+async function detectLanguage(
+  transcriber: AutomaticSpeechRecognitionPipeline,
+  audio: Float32Array
+): Promise<string> {
+  const generationConfig = transcriber.model
+    .generation_config as unknown as WhisperGenerationConfig | null;
+  const languageTokens = Object.entries(generationConfig?.lang_to_id ?? {});
+
+  if (!generationConfig || languageTokens.length === 0) {
+    // English-only checkpoints have no language tokens to choose from
+    return "en";
+  }
+
+  const { input_features } = await transcriber.processor(
+    audio.subarray(0, LANGUAGE_DETECTION_SAMPLES)
+  );
+  const decoder_input_ids = new Tensor(
+    "int64",
+    [BigInt(generationConfig.decoder_start_token_id)],
+    [1, 1]
+  );
+  const { logits } = await transcriber.model.forward({
+    input_features,
+    decoder_input_ids,
+  });
+  const scores = logits.data as Float32Array;
+
+  let bestToken = languageTokens[0][0];
+  let bestScore = -Infinity;
+  for (const [token, id] of languageTokens) {
+    if (scores[id] > bestScore) {
+      bestScore = scores[id];
+      bestToken = token;
+    }
+  }
+
+  // Tokens look like "<|es|>"
+  return bestToken.slice(2, -2);
+}
+
+/**
+ * Builds Whisper's previous-text prompt: <|startofprev|>, the prompt text,
+ * then the start tokens transformers.js would otherwise pick itself (word
+ * timestamps decode with <|notimestamps|>).
+ */
+function buildPromptIds(
+  transcriber: AutomaticSpeechRecognitionPipeline,
+  prompt: string,
+  options: { language?: string; task?: TranscriptionTask }
+): number[] | null {
+  const generationConfig = transcriber.model
+    .generation_config as unknown as WhisperGenerationConfig | null;
+  const [startOfPrev] = transcriber.tokenizer.model.convert_tokens_to_ids([
+    "<|startofprev|>",
+  ]);
+  if (!prompt.trim() || !generationConfig || startOfPrev === undefined) {
+    return null;
+  }
+
+  // The end of an over-long prompt is kept, as Whisper does with context
+  const promptTokens = transcriber.tokenizer
+    .encode(` ${prompt.trim()}`, { add_special_tokens: false })
+    .slice(-MAX_PROMPT_TOKENS);
+  const startTokens = [generationConfig.decoder_start_token_id];
+  if (options.language && generationConfig.lang_to_id) {
+    startTokens.push(generationConfig.lang_to_id[`<|${options.language}|>`]);
+  }
+  if (options.task && generationConfig.task_to_id) {
+    startTokens.push(generationConfig.task_to_id[options.task]);
+  }
+  if (generationConfig.no_timestamps_token_id !== undefined) {
+    startTokens.push(generationConfig.no_timestamps_token_id);
+  }
+
+  return [Number(startOfPrev), ...promptTokens, ...startTokens].filter(
+    (token) => token !== undefined
+  );
+}
+
+type GenerateArguments = Parameters<PreTrainedModel["generate"]>[0];
+
+interface ScoredToken {
+  token: number;
+  probability: number;
+}
+
+/**
+ * Records the probability the decoder gave every token it picked. A step's
+ * pick only shows up in the ids of the next step, so the final token
+ * (normally <|endoftext|>) goes unscored.
+ */
+class TokenProbabilityRecorder extends LogitsProcessor {
+  tokens: ScoredToken[] = [];
+  private previous: { logits: Float32Array; max: number; sum: number } | null = null;
+
+  _call(input_ids: bigint[][], logits: Tensor) {
+    const ids = input_ids[0];
+    if (this.previous) {
+      const token = Number(ids[ids.length - 1]);
+      const { logits: previous, max, sum } = this.previous;
+      this.tokens.push({ token, probability: Math.exp(previous[token] - max) / sum });
+    }
+
+    // Copied because later processors edit the logits in place; one batch
+    const row = Float32Array.from(logits.data as ArrayLike<number>);
+    let max = -Infinity;
+    for (const value of row) {
+      max = Math.max(max, value);
+    }
+    let sum = 0;
+    for (const value of row) {
+      sum += Math.exp(value - max);
+    }
+    this.previous = { logits: row, max, sum };
+    return logits;
+  }
+}
+
+/**
+ * A word's probability is the mean over its tokens, as in Whisper's own word
+ * timestamps. Tokens go to the word in which their decoded text ends.
+ */
+function getWordProbabilities(
+  transcriber: AutomaticSpeechRecognitionPipeline,
+  tokens: ScoredToken[],
+  words: string[]
+): Array<number | undefined> {
+  const { tokenizer } = transcriber;
+  const specialIds = new Set<number>(tokenizer.all_special_ids);
+  const textTokens = tokens.filter(({ token }) => !specialIds.has(token));
+
+  // Both sides drop leading whitespace, which the pipeline may trim
+  const wordEnds: number[] = [];
+  words.reduce((end, word, index) => {
+    const length = index === 0 ? word.trimStart().length : word.length;
+    wordEnds.push(end + length);
+    return end + length;
+  }, 0);
+
+  const sums = words.map(() => 0);
+  const counts = words.map(() => 0);
+  let wordIndex = 0;
+  textTokens.forEach(({ probability }, index) => {
+    const textEnd = tokenizer
+      .decode(textTokens.slice(0, index + 1).map(({ token }) => token))
+      .trimStart().length;
+    while (wordIndex < words.length - 1 && textEnd > wordEnds[wordIndex]) {
+      wordIndex += 1;
+    }
+    sums[wordIndex] += probability;
+    counts[wordIndex] += 1;
+  });
+
+  return sums.map((sum, index) => (counts[index] > 0 ? sum / counts[index] : undefined));
+}
+
+/**
+ * Transcribes one window with word timestamps and per-word probabilities.
+ * transformers.js neither reports token scores nor has a `prompt_ids` option,
+ * so `generate` is wrapped for the call: it records the scores with a logits
+ * processor, and a prompt goes in as the decoder input and is cut from the
+ * generated sequences again before the pipeline turns them into words.
+ */
+async function transcribeAudio(
+  transcriber: AutomaticSpeechRecognitionPipeline,
+  audio: Float32Array,
+  options: { language?: string; task?: TranscriptionTask },
+  promptIds: number[] | null
+) {
+  const { model } = transcriber;
+  const generate = model.generate;
+  // Everything before <|startoftranscript|>
+  const promptLength = promptIds
+    ? promptIds.indexOf(
+        (model.generation_config as unknown as WhisperGenerationConfig)
+          .decoder_start_token_id
+      )
+    : 0;
+  const tokens: ScoredToken[] = [];
+
+  model.generate = async (args: GenerateArguments) => {
+    const recorder = new TokenProbabilityRecorder();
+    const logitsProcessor = new LogitsProcessorList();
+    logitsProcessor.push(recorder);
+
+    const output = (await generate.call(model, {
+      ...args,
+      logits_processor: logitsProcessor,
+      ...(promptIds && { decoder_input_ids: promptIds }),
+    } as GenerateArguments)) as { sequences: Tensor; token_timestamps: Tensor };
+    tokens.push(...recorder.tokens);
+
+    if (!promptIds) {
+      return output;
+    }
+    return {
+      ...output,
+      sequences: output.sequences.slice(null, [promptLength, output.sequences.dims[1]]),
+      token_timestamps: output.token_timestamps.slice(null, [
+        promptLength,
+        output.token_timestamps.dims[1],
+      ]),
+    };
+  };
+
+  try {
+    const output = await transcriber(audio, { ...options, return_timestamps: "word" });
+    const windowOutput = Array.isArray(output) ? output[0] : output;
+    const words = (windowOutput.chunks ?? []).map((chunk) => chunk.text);
+    return {
+      chunks: windowOutput.chunks ?? [],
+      probabilities: getWordProbabilities(transcriber, tokens, words),
+    };
+  } finally {
+    model.generate = generate;
+  }
+}
+
 // Handle model loading - simplified like sample app
-async function handleLoad({ device = "wasm" }: { device?: DeviceType }) {
-  if (!loadPromise || device !== activeDevice) {
+async function handleLoad({
+  device = "wasm",
+  language = "en",
+  model = DEFAULT_MODEL,
+}: {
+  device?: DeviceType;
+  language?: string;
+  model?: ModelSelection;
+}) {
+  const modelKey = getModelKey(model);
+  const needsReset = device !== activeDevice || modelKey !== activeModelKey;
+
+  if (!loadPromise || needsReset) {
     if (transcriptionPromise) {
       try {
         await transcriptionPromise;
       } catch {
-        // Ignore errors from in-flight transcription while switching devices
+        // Ignore errors from in-flight transcription while switching devices or models
       }
       transcriptionPromise = null;
     }
 
-    if (device !== activeDevice) {
+    if (needsReset) {
       PipelineSingleton.resetInstance();
+      PipelineSingleton.model = model;
       loadPromise = null;
     }
 
@@ -105,6 +689,7 @@ async function handleLoad({ device = "wasm" }: { device?: DeviceType }) {
         );
 
         activeDevice = device;
+        activeModelKey = modelKey;
 
         if (device === "webgpu") {
           self.postMessage({
@@ -112,13 +697,25 @@ async function handleLoad({ device = "wasm" }: { device?: DeviceType }) {
             data: "Compiling shaders and warming up model...",
           });
 
-          await transcriber(new Float32Array(16_000), {
-            language: "en",
-          });
+          // Warm up with the selected language; in auto mode run detection
+          // on the silent buffer instead, which also exercises the decoder.
+          const silence = new Float32Array(SAMPLING_RATE);
+          await transcriber(
+            silence,
+            isMultilingual(transcriber)
+              ? {
+                  language:
+                    language === AUTO_DETECT_LANGUAGE
+                      ? await detectLanguage(transcriber, silence)
+                      : language,
+                }
+              : {}
+          );
         }
       } catch (error) {
         PipelineSingleton.resetInstance();
         activeDevice = null;
+        activeModelKey = null;
         throw error;
       }
     })();
@@ -138,16 +735,150 @@ async function handleLoad({ device = "wasm" }: { device?: DeviceType }) {
   }
 }
 
+// Words within this many seconds of an already kept word with the same text
+// are treated as the same word heard twice across a window seam
+const SEAM_TOLERANCE_SECONDS = 0.6;
+const SEAM_LOOKBACK_WORDS = 8;
+
+function normalizeWord(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Drops the leading words of a window that repeat the end of the previous
+ * one. Midpoint ownership handles most of the overlap, but Whisper's word
+ * timings drift slightly between windows, which can let a seam word through
+ * twice.
+ */
+function dropSeamDuplicates(previous: WordChunk[], next: WordChunk[]): WordChunk[] {
+  const tail = previous.slice(-SEAM_LOOKBACK_WORDS);
+  let skip = 0;
+
+  while (skip < next.length) {
+    const word = next[skip];
+    const isDuplicate = tail.some(
+      (kept) =>
+        normalizeWord(kept.text) === normalizeWord(word.text) &&
+        Math.abs(kept.timestamp[0] - word.timestamp[0]) < SEAM_TOLERANCE_SECONDS
+    );
+    if (!isDuplicate) {
+      break;
+    }
+    skip++;
+  }
+
+  return next.slice(skip);
+}
+
+/**
+ * Transcribes windows as the main thread posts them so every finalized
+ * window can be reported as a `partial` message while later audio is still
+ * being decoded. Word timestamps are shifted onto the full timeline and words
+ * in the overlap are kept only by the window that owns their midpoint.
+ */
+async function transcribeWindows(
+  transcriber: AutomaticSpeechRecognitionPipeline,
+  firstWindow: DecodedAudioWindow,
+  queue: WindowQueue,
+  options: { language?: string; task?: TranscriptionTask },
+  promptIds: number[] | null,
+  diarize: ((audio: Float32Array) => Promise<SpeakerTurn[]>) | null,
+  onWindow: (chunks: WordChunk[], processedSeconds: number) => void,
+  isCancelled: () => boolean
+): Promise<WordChunk[]> {
+  const chunks: WordChunk[] = [];
+
+  for (
+    let window: DecodedAudioWindow | null = firstWindow;
+    window;
+    window = window.ownedEnd >= window.end ? null : await queue.next()
+  ) {
+    if (isCancelled()) {
+      throw new TranscriptionCancelledError();
+    }
+
+    const { chunks: windowWords, probabilities } = await transcribeAudio(
+      transcriber,
+      window.audio,
+      options,
+      promptIds
+    );
+    const turns = diarize ? await diarize(window.audio) : null;
+    const offset = window.start / SAMPLING_RATE;
+    const ownedStart = window.ownedStart / SAMPLING_RATE;
+    const ownedEnd = window.ownedEnd / SAMPLING_RATE;
+    const isLastWindow = window.ownedEnd >= window.end;
+
+    // Ownership is decided on the (possibly compacted) window timeline,
+    // then timestamps are mapped back onto the original one
+    const { segments } = window;
+    const toSourceTime = (seconds: number, edge: "start" | "end") =>
+      segments ? mapToSourceTime(seconds, segments, edge) : seconds;
+
+    const windowChunks = dropSeamDuplicates(
+      chunks,
+      windowWords
+        .map((chunk, index): WordChunk => {
+          const [start, end] = chunk.timestamp;
+          const speaker = turns
+            ? findSpeakerAt(turns, (start + (end ?? start)) / 2)
+            : undefined;
+          const probability = probabilities[index];
+          return {
+            text: chunk.text,
+            timestamp: [offset + start, offset + (end ?? start)],
+            ...(speaker && { speaker }),
+            ...(probability !== undefined && {
+              probability: Math.round(probability * 1000) / 1000,
+            }),
+          };
+        })
+        .filter(({ timestamp: [start, end] }) => {
+          const midpoint = (start + end) / 2;
+          return midpoint >= ownedStart && (isLastWindow || midpoint < ownedEnd);
+        })
+        .map(({ timestamp: [start, end], ...chunk }): WordChunk => ({
+          ...chunk,
+          timestamp: [toSourceTime(start, "start"), toSourceTime(end, "end")],
+        }))
+    );
+
+    chunks.push(...windowChunks);
+    onWindow(windowChunks, toSourceTime(ownedEnd, "end"));
+  }
+
+  if (isCancelled()) {
+    throw new TranscriptionCancelledError();
+  }
+
+  return chunks;
+}
+
 // Handle transcription requests - optimized like sample app
 async function handleRun({
-  audio,
-  language = "en",
+  runId,
+  totalSeconds,
+  language = AUTO_DETECT_LANGUAGE,
+  task = "transcribe",
   device,
+  diarize = false,
+  prompt = "",
 }: {
-  audio: Float32Array;
+  runId: number;
+  // Expected duration, only used for progress reporting
+  totalSeconds: number;
   language?: string;
+  task?: TranscriptionTask;
   device?: DeviceType;
+  diarize?: boolean;
+  // Glossary terms Whisper is primed with, as if they were earlier speech
+  prompt?: string;
 }) {
+  const isCancelled = () => cancelledRunIds.has(runId);
+  // Registered before the first await so no window message is missed
+  const queue = new WindowQueue();
+  runWindows.set(runId, queue);
+
   try {
     if (loadPromise) {
       await loadPromise;
@@ -157,38 +888,94 @@ async function handleRun({
     const transcriber = await PipelineSingleton.getInstance(undefined, targetDevice);
 
     if (transcriptionPromise) {
-      await transcriptionPromise;
+      // A cancelled predecessor rejects; that is not this run's failure
+      await transcriptionPromise.catch(() => undefined);
+    }
+
+    if (isCancelled()) {
+      throw new TranscriptionCancelledError();
+    }
+
+    const firstWindow = await queue.next();
+    if (!firstWindow || isCancelled()) {
+      throw new TranscriptionCancelledError();
     }
 
     const start = performance.now();
 
-    // Use same settings as sample app for better performance
-    transcriptionPromise = transcriber(audio, {
-      language,
-      return_timestamps: "word",
-      chunk_length_s: 30,
-    });
+    const multilingual = isMultilingual(transcriber);
+    const resolvedLanguage = !multilingual
+      ? "en"
+      : language === AUTO_DETECT_LANGUAGE
+        ? await detectLanguage(transcriber, firstWindow.audio)
+        : language;
+    const resolvedTask: TranscriptionTask = multilingual ? task : "transcribe";
+    const decodeOptions = multilingual
+      ? { language: resolvedLanguage, task: resolvedTask }
+      : {};
+
+    const diarization = diarize ? await DiarizationSingleton.getInstance() : null;
+    const speakerTracker = new SpeakerTracker();
 
-    const result = await transcriptionPromise;
+    transcriptionPromise = transcribeWindows(
+      transcriber,
+      firstWindow,
+      queue,
+      decodeOptions,
+      buildPromptIds(transcriber, prompt, decodeOptions),
+      diarization
+        ? (audio) => diarizeWindow(diarization, audio, speakerTracker)
+        : null,
+      (chunks, processedSeconds) => {
+        self.postMessage({
+          status: "partial",
+          runId,
+          chunks,
+          processedSeconds,
+          totalSeconds,
+          language: resolvedLanguage,
+          task: resolvedTask,
+        });
+      },
+      isCancelled
+    );
+
+    const chunks = await transcriptionPromise;
 
     const end = performance.now();
 
     self.postMessage({
       status: "complete",
-      result,
+      runId,
+      result: {
+        text: chunks.map((chunk) => chunk.text).join("").trim(),
+        chunks,
+        language: resolvedLanguage,
+        task: resolvedTask,
+      },
       time: end - start,
     });
   } catch (error) {
+    if (error instanceof TranscriptionCancelledError) {
+      // Keep the pipeline warm; only this run is abandoned
+      self.postMessage({ status: "cancelled", runId });
+      return;
+    }
+
     console.error("Worker: Error in transcription:", error);
     PipelineSingleton.resetInstance();
     activeDevice = null;
+    activeModelKey = null;
     loadPromise = null;
     transcriptionPromise = null;
     self.postMessage({
       status: "error",
+      runId,
       data: error instanceof Error ? error.message : "Unknown error occurred",
     });
   } finally {
+    runWindows.delete(runId);
+    cancelledRunIds.delete(runId);
     transcriptionPromise = null;
   }
 }
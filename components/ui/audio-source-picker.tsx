@@ -0,0 +1,156 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  getChannelGains,
+  getChannelLabel,
+  type AudioSelection,
+  type AudioTrackInfo,
+  type ChannelMix,
+} from "@/lib/audio-utils";
+
+interface AudioSourcePickerProps {
+  tracks: AudioTrackInfo[];
+  selection: AudioSelection;
+  onChange: (selection: AudioSelection) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const MIXDOWN_OPTION = "mixdown";
+const CUSTOM_OPTION = "custom";
+
+function getChannelOptionValue(mix: ChannelMix): string {
+  if (mix.mode === "channel") return String(mix.channel);
+  if (mix.mode === "custom") return CUSTOM_OPTION;
+  return MIXDOWN_OPTION;
+}
+
+export function AudioSourcePicker({
+  tracks,
+  selection,
+  onChange,
+  disabled = false,
+  className = "",
+}: AudioSourcePickerProps) {
+  const track =
+    tracks.find((candidate) => candidate.id === selection.trackId) ??
+    tracks.find((candidate) => candidate.isDefault) ??
+    tracks[0];
+
+  if (!track) {
+    return null;
+  }
+
+  const handleTrackChange = (value: string) => {
+    // Channel choices do not carry over between tracks with different layouts
+    onChange({ trackId: Number(value), channels: { mode: "mixdown" } });
+  };
+
+  const handleChannelOptionChange = (value: string) => {
+    if (value === MIXDOWN_OPTION) {
+      onChange({ ...selection, channels: { mode: "mixdown" } });
+    } else if (value === CUSTOM_OPTION) {
+      onChange({
+        ...selection,
+        channels: {
+          mode: "custom",
+          gains: getChannelGains(track.channels, selection.channels),
+        },
+      });
+    } else {
+      onChange({ ...selection, channels: { mode: "channel", channel: Number(value) } });
+    }
+  };
+
+  const handleGainChange = (channel: number, gain: number) => {
+    if (selection.channels.mode !== "custom") {
+      return;
+    }
+    const gains = [...selection.channels.gains];
+    gains[channel] = gain;
+    onChange({ ...selection, channels: { mode: "custom", gains } });
+  };
+
+  return (
+    <div className={`grid gap-4 sm:grid-cols-2 ${className}`}>
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Audio track</label>
+        <Select
+          value={String(track.id)}
+          onValueChange={handleTrackChange}
+          disabled={disabled || tracks.length < 2}
+        >
+          <SelectTrigger className="w-full p-2 border rounded-md bg-background">
+            <SelectValue placeholder="Select a track" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {tracks.map((option) => (
+                <SelectItem key={option.id} value={String(option.id)}>
+                  {option.label}
+                  {option.isDefault && " · default"}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Channels</label>
+        <Select
+          value={getChannelOptionValue(selection.channels)}
+          onValueChange={handleChannelOptionChange}
+          disabled={disabled || track.channels < 2}
+        >
+          <SelectTrigger className="w-full p-2 border rounded-md bg-background">
+            <SelectValue placeholder="Select channels" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value={MIXDOWN_OPTION}>Mix all channels</SelectItem>
+              {Array.from({ length: track.channels }, (_, channel) => (
+                <SelectItem key={channel} value={String(channel)}>
+                  {getChannelLabel(channel, track.channels)} only
+                </SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_OPTION}>Custom mix</SelectItem>
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Applies to transcription and to the exported video.
+        </p>
+      </div>
+
+      {selection.channels.mode === "custom" && (
+        <div className="space-y-3 sm:col-span-2">
+          {selection.channels.gains.map((gain, channel) => (
+            <div key={channel} className="flex items-center gap-3">
+              <span className="w-32 text-xs text-muted-foreground">
+                {getChannelLabel(channel, track.channels)}
+              </span>
+              <Slider
+                min={0}
+                max={1}
+                step={0.05}
+                value={[gain]}
+                onValueChange={([value]) => handleGainChange(channel, value)}
+                disabled={disabled}
+                aria-label={`${getChannelLabel(channel, track.channels)} level`}
+              />
+              <span className="w-10 text-right text-xs">{Math.round(gain * 100)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
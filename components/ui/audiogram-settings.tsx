@@ -0,0 +1,160 @@
+import { ChangeEvent } from "react";
+import { ImageIcon, X } from "lucide-react";
+
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+
+export type AudiogramLayout = "landscape" | "portrait" | "square";
+
+export interface AudiogramStyle {
+  layout: AudiogramLayout;
+  backgroundColor: string;
+  // Data URL of an uploaded image drawn over the background color
+  backgroundImage: string | null;
+  waveformColor: string;
+}
+
+export const AUDIOGRAM_SIZES: Record<AudiogramLayout, { width: number; height: number }> = {
+  landscape: { width: 1280, height: 720 },
+  portrait: { width: 720, height: 1280 },
+  square: { width: 1080, height: 1080 },
+};
+
+export const DEFAULT_AUDIOGRAM_STYLE: AudiogramStyle = {
+  layout: "landscape",
+  backgroundColor: "#1E1B4B",
+  backgroundImage: null,
+  waveformColor: "#FACC15",
+};
+
+interface AudiogramSettingsProps {
+  style: AudiogramStyle;
+  onChange: (style: AudiogramStyle) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const layoutOptions: Array<{ value: AudiogramLayout; label: string }> = [
+  { value: "landscape", label: "Landscape (1280×720)" },
+  { value: "portrait", label: "Portrait (720×1280)" },
+  { value: "square", label: "Square (1080×1080)" },
+];
+
+export function AudiogramSettings({
+  style,
+  onChange,
+  disabled = false,
+  className = "",
+}: AudiogramSettingsProps) {
+  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      onChange({ ...style, backgroundImage: reader.result as string });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className={`space-y-4 rounded-md border border-border/50 p-4 ${className}`}>
+      <div>
+        <h4 className="text-sm font-medium">Audiogram</h4>
+        <p className="text-xs text-muted-foreground">
+          Audio files export as a video with a waveform behind the subtitles.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Size</label>
+        <Select
+          value={style.layout}
+          onValueChange={(value) =>
+            onChange({ ...style, layout: value as AudiogramLayout })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full p-2 border rounded-md bg-background">
+            <SelectValue placeholder="Select a size" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {layoutOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium block">Background</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={style.backgroundColor}
+              onChange={(e) => onChange({ ...style, backgroundColor: e.target.value })}
+              disabled={disabled}
+              className="w-10 h-10 rounded cursor-pointer"
+            />
+            <span className="text-sm uppercase">{style.backgroundColor}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium block">Waveform</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={style.waveformColor}
+              onChange={(e) => onChange({ ...style, waveformColor: e.target.value })}
+              disabled={disabled}
+              className="w-10 h-10 rounded cursor-pointer"
+            />
+            <span className="text-sm uppercase">{style.waveformColor}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="neutral" size="sm" className="relative" disabled={disabled}>
+          <ImageIcon className="h-4 w-4 mr-2" />
+          {style.backgroundImage ? "Change image" : "Background image"}
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleImageChange}
+            disabled={disabled}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </Button>
+        {style.backgroundImage && (
+          <Button
+            variant="noShadow"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange({ ...style, backgroundImage: null })}
+            disabled={disabled}
+            title="Remove background image"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
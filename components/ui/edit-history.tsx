@@ -0,0 +1,108 @@
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { type HistoryEntry } from "@/hooks/useEditHistory";
+
+interface EditHistoryProps<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  onUndo: () => void;
+  onRedo: () => void;
+  // Positive steps undo, negative steps redo
+  onTravel: (steps: number) => void;
+  // Undo and redo are unavailable, e.g. while a transcription streams in
+  disabled?: boolean;
+  className?: string;
+}
+
+function formatEditTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export function EditHistory<T>({
+  past,
+  future,
+  onUndo,
+  onRedo,
+  onTravel,
+  disabled = false,
+  className = "",
+}: EditHistoryProps<T>) {
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          <span className="text-sm font-medium">Edit history</span>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            onClick={onUndo}
+            variant="neutral"
+            size="sm"
+            disabled={disabled || past.length === 0}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={onRedo}
+            variant="neutral"
+            size="sm"
+            disabled={disabled || future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {past.length === 0 && future.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No edits yet.</p>
+      ) : (
+        <ol className="max-h-40 overflow-y-auto space-y-1 text-sm">
+          {/* Undone edits, next redo at the bottom */}
+          {future.map((entry, index) => (
+            <li key={`future-${entry.time}-${index}`}>
+              <button
+                type="button"
+                onClick={() => onTravel(index - future.length)}
+                disabled={disabled}
+                className="flex w-full justify-between gap-2 rounded px-2 py-1 text-left text-muted-foreground line-through hover:bg-muted disabled:pointer-events-none"
+                title="Redo up to here"
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-xs">{formatEditTime(entry.time)}</span>
+              </button>
+            </li>
+          ))}
+          {/* Applied edits, most recent first */}
+          {past
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => (
+              <li key={`past-${entry.time}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => onTravel(past.length - 1 - index)}
+                  disabled={disabled}
+                  className={`flex w-full justify-between gap-2 rounded px-2 py-1 text-left hover:bg-muted disabled:pointer-events-none ${
+                    index === past.length - 1 ? "font-medium" : ""
+                  }`}
+                  title={index === past.length - 1 ? "Latest edit" : "Undo back to here"}
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatEditTime(entry.time)}
+                  </span>
+                </button>
+              </li>
+            ))}
+        </ol>
+      )}
+    </div>
+  );
+}
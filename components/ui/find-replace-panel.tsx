@@ -0,0 +1,143 @@
+import { ChevronDown, ChevronUp, Replace, ReplaceAll } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type TranscriptSearchOptions } from "@/lib/transcript-search";
+
+interface FindReplacePanelProps {
+  options: TranscriptSearchOptions;
+  onOptionsChange: (options: TranscriptSearchOptions) => void;
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  matchCount: number;
+  // Index of the highlighted match, -1 when there is none
+  activeMatch: number;
+  onNavigate: (direction: 1 | -1) => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  // Message for an invalid regular expression
+  error?: string | null;
+  className?: string;
+}
+
+const searchToggles: Array<{
+  key: "caseSensitive" | "wholeWord" | "regex";
+  label: string;
+  title: string;
+}> = [
+  { key: "caseSensitive", label: "Aa", title: "Match case" },
+  { key: "wholeWord", label: "ab", title: "Match whole word" },
+  { key: "regex", label: ".*", title: "Use regular expression" },
+];
+
+export function FindReplacePanel({
+  options,
+  onOptionsChange,
+  replacement,
+  onReplacementChange,
+  matchCount,
+  activeMatch,
+  onNavigate,
+  onReplace,
+  onReplaceAll,
+  error,
+  className = "",
+}: FindReplacePanelProps) {
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center gap-1">
+        <Input
+          value={options.query}
+          onChange={(event) => onOptionsChange({ ...options, query: event.target.value })}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              onNavigate(event.shiftKey ? -1 : 1);
+            }
+          }}
+          placeholder="Find"
+          aria-label="Find"
+          className="h-8"
+        />
+        {searchToggles.map((toggle) => (
+          <Button
+            key={toggle.key}
+            onClick={() => onOptionsChange({ ...options, [toggle.key]: !options[toggle.key] })}
+            variant={options[toggle.key] ? "default" : "neutral"}
+            size="sm"
+            className="h-8 w-8 shrink-0 px-0 font-mono text-xs"
+            title={toggle.title}
+            aria-pressed={options[toggle.key]}
+          >
+            {toggle.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Input
+          value={replacement}
+          onChange={(event) => onReplacementChange(event.target.value)}
+          placeholder="Replace"
+          aria-label="Replace"
+          className="h-8"
+        />
+        <Button
+          onClick={onReplace}
+          variant="neutral"
+          size="sm"
+          className="h-8 w-8 shrink-0 px-0"
+          disabled={activeMatch < 0}
+          title="Replace"
+        >
+          <Replace className="h-3 w-3" />
+        </Button>
+        <Button
+          onClick={onReplaceAll}
+          variant="neutral"
+          size="sm"
+          className="h-8 w-8 shrink-0 px-0"
+          disabled={matchCount === 0}
+          title="Replace all"
+        >
+          <ReplaceAll className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        {error ? (
+          <span className="text-destructive">{error}</span>
+        ) : (
+          <span>
+            {options.query
+              ? matchCount > 0
+                ? `${activeMatch + 1} of ${matchCount}`
+                : "No matches"
+              : "Search the transcript"}
+          </span>
+        )}
+        <div className="flex gap-1">
+          <Button
+            onClick={() => onNavigate(-1)}
+            variant="noShadow"
+            size="icon"
+            className="h-6 w-6 p-1"
+            disabled={matchCount === 0}
+            title="Previous match (Shift+Enter)"
+          >
+            <ChevronUp className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={() => onNavigate(1)}
+            variant="noShadow"
+            size="icon"
+            className="h-6 w-6 p-1"
+            disabled={matchCount === 0}
+            title="Next match (Enter)"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { BookA, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createGlossaryEntry, type GlossaryEntry } from "@/lib/glossary";
+
+interface GlossaryEditorProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function GlossaryEditor({
+  entries,
+  onChange,
+  disabled = false,
+  className = "",
+}: GlossaryEditorProps) {
+  const updateEntry = (id: string, update: Partial<GlossaryEntry>) => {
+    onChange(
+      entries.map((entry) => (entry.id === id ? { ...entry, ...update } : entry))
+    );
+  };
+
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BookA className="h-4 w-4" />
+          <span className="text-sm font-medium">Glossary</span>
+        </div>
+        <Button
+          onClick={() => onChange([...entries, createGlossaryEntry()])}
+          variant="neutral"
+          size="sm"
+          disabled={disabled}
+          title="Add a term"
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add names and product terms to steer the model towards their spelling
+          and fix sound-alikes once the transcript is done.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-2">
+              <Input
+                value={entry.term}
+                onChange={(event) => updateEntry(entry.id, { term: event.target.value })}
+                placeholder="Term"
+                aria-label="Term"
+                className="h-8"
+                disabled={disabled}
+              />
+              <Input
+                // Split on commas only, so spaces inside a variant survive typing
+                value={entry.variants.join(",")}
+                onChange={(event) =>
+                  updateEntry(entry.id, {
+                    variants: event.target.value ? event.target.value.split(",") : [],
+                  })
+                }
+                placeholder="Sound-alikes, comma separated"
+                aria-label={`Sound-alikes for ${entry.term || "term"}`}
+                className="h-8"
+                disabled={disabled}
+              />
+              <Button
+                onClick={() => onChange(entries.filter(({ id }) => id !== entry.id))}
+                variant="noShadow"
+                size="icon"
+                className="p-1 h-8 w-8 shrink-0"
+                disabled={disabled}
+                title="Remove term"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -38,7 +38,7 @@ export function LandingPage({ onTryNow }: LandingPageProps) {
           <Alert className="mt-8 max-w-lg mx-auto">
             <Video className="h-4 w-4 text-primary" />
             <AlertDescription>
-              Supported formats: MP4 and WebM. Maximum video length: 5 minutes.
+              Supported formats: MP4, WebM, MP3, WAV, M4A and OGG. Maximum length: 2 hours.
             </AlertDescription>
           </Alert>
         </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useRef, useState, useCallback } from "react";
+import { useRef, useState, useCallback, useEffect, useMemo } from "react";
 import { VideoUpload } from "@/components/ui/video-upload";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
@@ -9,6 +9,8 @@ import {
   Video,
   ZoomIn,
   ZoomOut,
+  AudioLines,
+  Captions,
 } from "lucide-react";
 import { TranscriptSidebar } from "@/components/ui/transcript-sidebar";
 import {
@@ -18,9 +20,58 @@ import {
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ProcessingOverlay } from "@/components/ui/processing-overlay";
-import { useTranscription, STATUS_MESSAGES } from "@/hooks/useTranscription";
+import { Progress } from "@/components/ui/progress";
+import {
+  useTranscription,
+  STATUS_MESSAGES,
+  type TranscriptionResult,
+} from "@/hooks/useTranscription";
 import { useVideoDownloadMediaBunny } from "@/hooks/useVideoDownloadMediaBunny";
+import { useEditHistory } from "@/hooks/useEditHistory";
+import { useProjectAutosave } from "@/hooks/useProjectAutosave";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TranscriptionSettings } from "@/components/ui/transcription-settings";
+import { ModelManager } from "@/components/ui/model-manager";
+import { SpeechActivityBar } from "@/components/ui/speech-activity-bar";
+import { AudioSourcePicker } from "@/components/ui/audio-source-picker";
+import { EditHistory } from "@/components/ui/edit-history";
+import { PhraseGroupingSettings } from "@/components/ui/phrase-grouping-settings";
+import { GlossaryEditor } from "@/components/ui/glossary-editor";
+import { ProjectList } from "@/components/ui/project-list";
+import { SubtitleImport } from "@/components/ui/subtitle-import";
+import {
+  AudiogramSettings,
+  DEFAULT_AUDIOGRAM_STYLE,
+  type AudiogramStyle,
+} from "@/components/ui/audiogram-settings";
+import { DEFAULT_MODEL, type ModelSelection } from "@/lib/models";
+import { loadGlossary, saveGlossary, type GlossaryEntry } from "@/lib/glossary";
+import {
+  createProject,
+  getProject,
+  getProjectMedia,
+  saveProject,
+  saveProjectMedia,
+  type Project,
+  type ProjectSettings,
+} from "@/lib/project-store";
+import {
+  DEFAULT_PHRASE_GROUPING,
+  type PhraseGroupingOptions,
+} from "@/lib/utils";
+import {
+  DEFAULT_AUDIO_SELECTION,
+  isAudioFile,
+  listAudioTracks,
+  type AudioSelection,
+  type AudioTrackInfo,
+} from "@/lib/audio-utils";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getTranscriptLabel,
+  type TranscriptionLanguage,
+  type TranscriptionTask,
+} from "@/lib/languages";
 
 // Default subtitle style
 const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
@@ -42,8 +93,44 @@ export function MainApp() {
   );
   const [uploadKey, setUploadKey] = useState(0);
   const [mode, setMode] = useState<"word" | "phrase">("word");
+  const [grouping, setGrouping] = useState<PhraseGroupingOptions>(
+    DEFAULT_PHRASE_GROUPING
+  );
   const [ratio, setRatio] = useState<"16:9" | "9:16">("16:9");
   const [zoomPortrait, setZoomPortrait] = useState(false);
+  const [language, setLanguage] = useState<TranscriptionLanguage>(
+    AUTO_DETECT_LANGUAGE
+  );
+  const [task, setTask] = useState<TranscriptionTask>("transcribe");
+  const [model, setModel] = useState<ModelSelection>(DEFAULT_MODEL);
+  const [skipSilence, setSkipSilence] = useState(true);
+  const [diarize, setDiarize] = useState(false);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [audioTracks, setAudioTracks] = useState<AudioTrackInfo[]>([]);
+  const [audioSelection, setAudioSelection] = useState<AudioSelection>(
+    DEFAULT_AUDIO_SELECTION
+  );
+  // The selection the current transcript was made from, reused for export
+  const [transcribedAudio, setTranscribedAudio] = useState<AudioSelection>(
+    DEFAULT_AUDIO_SELECTION
+  );
+  const [isChoosingAudio, setIsChoosingAudio] = useState(false);
+  const [audiogramStyle, setAudiogramStyle] = useState<AudiogramStyle>(
+    DEFAULT_AUDIOGRAM_STYLE
+  );
+  // The saved project being edited, once a transcript exists
+  const [project, setProject] = useState<Project | null>(null);
+  // Stored source media of a reopened project, shown without transcribing
+  const [openedMedia, setOpenedMedia] = useState<File | null>(null);
+  // Set while a stored project is being read back, so its transcript is not
+  // mistaken for a new one and saved again as another project
+  const isOpeningProjectRef = useRef(false);
+  // Subtitles imported from a file, used instead of transcribing the next media
+  const [importedSubtitles, setImportedSubtitles] = useState<{
+    name: string;
+    result: TranscriptionResult;
+  } | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
   const {
@@ -51,14 +138,96 @@ export function MainApp() {
     error,
     result,
     progress,
+    speechRegions,
+    mediaDuration,
+    waveform,
     setResult,
     handleVideoSelect,
     resetTranscription,
+    restoreTranscription,
     cancelTranscription,
-  } = useTranscription();
+  } = useTranscription({
+    language,
+    task,
+    model,
+    skipSilence,
+    diarize,
+    glossary,
+  });
+
+  // Loaded after mount so server and client render the same markup
+  useEffect(() => {
+    setGlossary(loadGlossary());
+  }, []);
+
+  const handleGlossaryChange = (entries: GlossaryEntry[]) => {
+    setGlossary(entries);
+    saveGlossary(entries);
+  };
+
+  // Streamed windows reach the result without going through the history
+  const history = useEditHistory(result, setResult, status === "transcribing");
+  const { clear: clearHistory } = history;
+
+  // A new (or reset) transcript starts with an empty history
+  useEffect(() => {
+    if (!result) {
+      clearHistory();
+    }
+  }, [result, clearHistory]);
+
+  // Edits made while windows streamed in saved snapshots without the later
+  // windows, so undoing them after the run would drop those
+  const wasTranscribingRef = useRef(false);
+  useEffect(() => {
+    if (wasTranscribingRef.current && status !== "transcribing") {
+      clearHistory();
+    }
+    wasTranscribingRef.current = status === "transcribing";
+  }, [status, clearHistory]);
+
+  // Saved state of the open project; nothing is saved while a run streams in
+  const transcription = useMemo(
+    () =>
+      result && status !== "transcribing"
+        ? { result, speechRegions, mediaDuration, waveform }
+        : null,
+    [result, status, speechRegions, mediaDuration, waveform]
+  );
+  const projectSettings: ProjectSettings = useMemo(
+    () => ({
+      subtitleStyle,
+      mode,
+      grouping,
+      ratio,
+      zoomPortrait,
+      audiogramStyle,
+      audioSelection: transcribedAudio,
+    }),
+    [subtitleStyle, mode, grouping, ratio, zoomPortrait, audiogramStyle, transcribedAudio]
+  );
+  useProjectAutosave(project, transcription, projectSettings);
+
+  // A finished (or imported) transcript of a new file becomes a project
+  useEffect(() => {
+    if (project || isOpeningProjectRef.current || !transcription || !selectedFile) {
+      return;
+    }
+    const created = createProject(
+      selectedFile.name.replace(/\.[^.]+$/, "") || selectedFile.name,
+      transcription,
+      projectSettings,
+      selectedFile
+    );
+    setProject(created);
+    saveProject(created)
+      .then(() => saveProjectMedia(created.id, selectedFile))
+      .catch((err) => console.warn("Could not save the project:", err));
+  }, [project, transcription, selectedFile, projectSettings]);
 
   const {
     downloadVideo,
+    downloadWithSubtitleTrack,
     cancelDownload,
     isProcessing: isDownloadProcessing,
     progress: downloadProgress,
@@ -67,16 +236,85 @@ export function MainApp() {
     video: videoRef.current,
     transcriptChunks: result?.chunks || [],
     subtitleStyle,
+    speakers: result?.speakers,
     mode,
+    grouping,
     format: 'mp4',
     quality: 'high',
     fps: 30,
+    audioSelection: transcribedAudio,
+    audiogram: audiogramStyle,
+    language: result?.language,
+    task: result?.task,
   });
+  const isAudioOnly = selectedFile !== null && isAudioFile(selectedFile);
+  // MP4 sources get no MP4 with a subtitle track: see downloadWithSubtitleTrack
+  const isMp4Source =
+    selectedFile !== null &&
+    (selectedFile.type === "video/mp4" || /\.(mp4|m4v)$/i.test(selectedFile.name));
+
+  const startTranscription = (file: File, selection: AudioSelection) => {
+    setIsChoosingAudio(false);
+    setTranscribedAudio(selection);
+    handleVideoSelect(file, selection);
+  };
+
+  const handleFileSelect = async (file: File) => {
+    if (project && result && !selectedFile) {
+      // Re-linking the source of a project whose media was not stored
+      setSelectedFile(file);
+      setAudioTracks(await listAudioTracks(file).catch(() => []));
+      const relinked = {
+        ...project,
+        media: { name: file.name, type: file.type, size: file.size },
+      };
+      setProject(relinked);
+      saveProject(relinked)
+        .then(() => saveProjectMedia(relinked.id, file))
+        .catch((err) => console.warn("Could not save the project:", err));
+      return;
+    }
+
+    setSelectedFile(file);
+    const tracks = await listAudioTracks(file).catch(() => []);
+    const defaultTrack = tracks.find((track) => track.isDefault) ?? tracks[0];
+    const selection: AudioSelection = {
+      trackId: defaultTrack?.id,
+      channels: { mode: "mixdown" },
+    };
+    setAudioTracks(tracks);
+    setAudioSelection(selection);
+
+    if (importedSubtitles) {
+      setTranscribedAudio(selection);
+      restoreTranscription({
+        result: importedSubtitles.result,
+        speechRegions: [],
+        mediaDuration: 0,
+        waveform: null,
+      });
+      setImportedSubtitles(null);
+      return;
+    }
+
+    // Only stop to ask when there is a real choice: several tracks or a
+    // surround layout. Stereo files can still switch channels afterwards.
+    if (tracks.length > 1 || (defaultTrack?.channels ?? 0) > 2) {
+      setIsChoosingAudio(true);
+      return;
+    }
+    startTranscription(file, selection);
+  };
 
   // Memoized handlers for better performance
   const handleResetVideo = useCallback(() => {
     // Reset transcription state
     resetTranscription();
+    setSelectedFile(null);
+    setAudioTracks([]);
+    setIsChoosingAudio(false);
+    setProject(null);
+    setOpenedMedia(null);
 
     // Reset current time
     setCurrentTime(0);
@@ -95,6 +333,50 @@ export function MainApp() {
     }
   }, [resetTranscription]);
 
+  const handleOpenProject = async (id: string) => {
+    isOpeningProjectRef.current = true;
+    try {
+      const [stored, media] = await Promise.all([getProject(id), getProjectMedia(id)]);
+      if (!stored) return;
+      // Everything is read before the first update, so the project is set in
+      // the same render as the transcript it belongs to
+      const tracks = media ? await listAudioTracks(media).catch(() => []) : [];
+
+      const { settings } = stored;
+      setProject(stored);
+      restoreTranscription(stored.transcription);
+      clearHistory();
+      setSubtitleStyle(settings.subtitleStyle);
+      setMode(settings.mode);
+      setGrouping(settings.grouping);
+      setRatio(settings.ratio);
+      setZoomPortrait(settings.zoomPortrait);
+      setAudiogramStyle(settings.audiogramStyle);
+      setAudioSelection(settings.audioSelection);
+      setTranscribedAudio(settings.audioSelection);
+      setSelectedFile(media);
+      setOpenedMedia(media);
+      setAudioTracks(tracks);
+      setIsChoosingAudio(false);
+      setCurrentTime(0);
+      // Remount the player so it picks up the stored media
+      setUploadKey((prev) => prev + 1);
+    } finally {
+      isOpeningProjectRef.current = false;
+    }
+  };
+
+  // Timeline edits only move timestamps, so the transcript text is unchanged
+  const { commit: commitEdit } = history;
+  const handleChunksChange = useCallback(
+    (chunks: NonNullable<typeof result>["chunks"], label: string) => {
+      if (result) {
+        commitEdit({ ...result, chunks }, label);
+      }
+    },
+    [result, commitEdit]
+  );
+
   const handleTimeUpdate = useCallback((time: number) => {
     setCurrentTime(time);
   }, []);
@@ -119,6 +401,9 @@ export function MainApp() {
   // Determine if we should show the loading overlay
   const isProcessing =
     status !== "idle" && (status !== "ready" || (progress > 0 && progress < 100));
+  // Once the first window arrives the editor fills in live, so the blocking
+  // overlay gives way to an inline progress bar
+  const isStreaming = status === "transcribing" && result !== null;
   const statusMessage = STATUS_MESSAGES[status] ?? "Processing video...";
 
   return (
@@ -140,7 +425,7 @@ export function MainApp() {
               {/* Column 1: Upload Text */}
               <div className="justify-self-start">
                 <p className="text-muted-foreground">
-                  Upload a video (MP4 or WebM) to generate subtitles
+                  Upload a video or audio file to generate subtitles
                 </p>
               </div>
 
@@ -189,14 +474,27 @@ export function MainApp() {
 
               {/* Column 3: Upload Button */}
               <div className="justify-self-end">
-                {result && (
-                  <Button
-                    onClick={handleResetVideo}
-                    className="flex items-center gap-2 px-4 py-2"
-                  >
-                    <Upload className="w-4 h-4" />
-                    Upload Another Video
-                  </Button>
+                {result && !isStreaming && (
+                  <div className="flex flex-col items-end gap-2">
+                    <Button
+                      onClick={handleResetVideo}
+                      className="flex items-center gap-2 px-4 py-2"
+                    >
+                      <Upload className="w-4 h-4" />
+                      Upload Another File
+                    </Button>
+                    {audioTracks.length > 0 && (
+                      <Button
+                        variant="neutral"
+                        size="sm"
+                        onClick={() => setIsChoosingAudio((open) => !open)}
+                        className="flex items-center gap-2"
+                      >
+                        <AudioLines className="w-4 h-4" />
+                        Audio source
+                      </Button>
+                    )}
+                  </div>
                 )}
               </div>
             </div>
@@ -205,12 +503,93 @@ export function MainApp() {
               <Alert className="">
                 <Video className="h-4 w-4 text-primary" />
                 <AlertDescription>
-                  Supported formats: MP4 and WebM. Maximum video length: 5
-                  minutes.
+                  Supported formats: MP4, WebM, MP3, WAV, M4A and OGG, of any
+                  length: audio is decoded and transcribed in windows.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {project && !selectedFile && (
+              <Alert>
+                <Video className="h-4 w-4 text-primary" />
+                <AlertDescription>
+                  The media for this project could not be stored in the
+                  browser. Select {project.media.name} again to relink it.
                 </AlertDescription>
               </Alert>
             )}
 
+            {!result && (
+              <div className="space-y-3">
+                <ProjectList
+                  onOpen={handleOpenProject}
+                  disabled={status !== "idle" && status !== "ready"}
+                />
+                <SubtitleImport
+                  imported={importedSubtitles}
+                  onImport={setImportedSubtitles}
+                  disabled={status !== "idle" && status !== "ready"}
+                />
+                <TranscriptionSettings
+                  language={language}
+                  onLanguageChange={setLanguage}
+                  task={task}
+                  onTaskChange={setTask}
+                  model={model}
+                  onModelChange={setModel}
+                  skipSilence={skipSilence}
+                  onSkipSilenceChange={setSkipSilence}
+                  diarize={diarize}
+                  onDiarizeChange={setDiarize}
+                  disabled={status !== "idle" && status !== "ready"}
+                />
+                <GlossaryEditor
+                  entries={glossary}
+                  onChange={handleGlossaryChange}
+                  disabled={status !== "idle" && status !== "ready"}
+                />
+                <ModelManager activeModel={model} />
+              </div>
+            )}
+
+            {isChoosingAudio && selectedFile && (
+              <div className="space-y-3 rounded-md border border-border/50 p-4">
+                <AudioSourcePicker
+                  tracks={audioTracks}
+                  selection={audioSelection}
+                  onChange={setAudioSelection}
+                />
+                <div className="flex items-center justify-end gap-3">
+                  {result && (
+                    <p className="text-xs text-muted-foreground">
+                      Transcribing again replaces your current edits.
+                    </p>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => startTranscription(selectedFile, audioSelection)}
+                  >
+                    {result ? "Transcribe again" : "Transcribe"}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isStreaming && (
+              <div className="flex items-center gap-4 rounded-md border border-border/50 px-4 py-3">
+                <div className="flex-1 space-y-2">
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Transcribing... subtitles appear as each section finishes</span>
+                    <span>{Math.round(progress)}%</span>
+                  </div>
+                  <Progress value={progress} className="w-full h-2" />
+                </div>
+                <Button variant="neutral" size="sm" onClick={cancelTranscription}>
+                  Stop
+                </Button>
+              </div>
+            )}
+
             {error && (
               <Alert variant="destructive">
                 <AlertDescription>{error}</AlertDescription>
@@ -227,6 +606,13 @@ export function MainApp() {
                         style={subtitleStyle}
                         onChange={setSubtitleStyle}
                       />
+                      {mode === "phrase" && (
+                        <PhraseGroupingSettings
+                          className="mt-6 border-t border-border pt-4"
+                          grouping={grouping}
+                          onChange={setGrouping}
+                        />
+                      )}
                     </div>
                   </ScrollArea>
                 </div>
@@ -238,15 +624,33 @@ export function MainApp() {
                 <VideoUpload
                   key={uploadKey}
                   className="w-full"
-                  onVideoSelect={handleVideoSelect}
+                  onVideoSelect={handleFileSelect}
+                  initialFile={openedMedia}
                   ref={videoRef}
                   onTimeUpdate={handleTimeUpdate}
                   transcript={result}
                   currentTime={currentTime}
                   subtitleStyle={subtitleStyle}
                   mode={mode}
+                  grouping={grouping}
                   ratio={ratio}
                   zoomPortrait={zoomPortrait}
+                  waveform={waveform}
+                  speechRegions={speechRegions}
+                  onChunksChange={handleChunksChange}
+                />
+
+                <SpeechActivityBar
+                  className="mt-3"
+                  regions={speechRegions}
+                  duration={mediaDuration}
+                  currentTime={currentTime}
+                  onSeek={(time) => {
+                    if (videoRef.current) {
+                      videoRef.current.currentTime = time;
+                      setCurrentTime(time);
+                    }
+                  }}
                 />
 
                 {result && (
@@ -257,9 +661,42 @@ export function MainApp() {
                       disabled={isDownloadProcessing}
                     >
                       <Download className="w-4 h-4" />
-                      {isDownloadProcessing ? 'Processing...' : 'Download Video with Subtitles'}
+                      {isDownloadProcessing
+                        ? 'Processing...'
+                        : isAudioOnly
+                          ? 'Download Audiogram with Subtitles'
+                          : 'Download Video with Subtitles'}
                     </Button>
 
+                    {!isAudioOnly && (
+                      <Button
+                        onClick={downloadWithSubtitleTrack}
+                        variant="neutral"
+                        className="flex items-center gap-2"
+                        disabled={isDownloadProcessing}
+                        title="Copies the video without re-encoding into a WebM or MKV file with captions viewers can toggle"
+                      >
+                        <Captions className="w-4 h-4" />
+                        Download with Subtitle Track
+                      </Button>
+                    )}
+
+                    {!isAudioOnly && isMp4Source && (
+                      <p className="text-xs text-muted-foreground text-center max-w-md">
+                        Soft subtitles are not available in MP4: the subtitle track export
+                        saves this video as MKV (or WebM) instead.
+                      </p>
+                    )}
+
+                    {isAudioOnly && (
+                      <AudiogramSettings
+                        className="w-full max-w-md"
+                        style={audiogramStyle}
+                        onChange={setAudiogramStyle}
+                        disabled={isDownloadProcessing}
+                      />
+                    )}
+
                     {isDownloadProcessing && (
                       <div className="w-full max-w-md space-y-3">
                         <div className="flex justify-between text-sm text-muted-foreground">
@@ -292,7 +729,22 @@ export function MainApp() {
                       <p className="text-sm text-muted-foreground">
                         Click on any segment to edit the text
                       </p>
+                      {result.language && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {getTranscriptLabel(result)}
+                          {language === AUTO_DETECT_LANGUAGE && " · language detected"}
+                        </p>
+                      )}
                     </div>
+                    <EditHistory
+                      className="mb-4"
+                      past={history.past}
+                      future={history.future}
+                      onUndo={history.undo}
+                      onRedo={history.redo}
+                      onTravel={history.travel}
+                      disabled={history.paused}
+                    />
                     <TranscriptSidebar
                       transcript={result}
                       currentTime={currentTime}
@@ -302,10 +754,13 @@ export function MainApp() {
                           setCurrentTime(time);
                         }
                       }}
-                      onTranscriptUpdate={(updatedTranscript) => {
-                        setResult(updatedTranscript);
+                      onTranscriptUpdate={(updatedTranscript, label) => {
+                        history.commit(updatedTranscript, label);
                       }}
                       mode={mode}
+                      grouping={grouping}
+                      subtitleStyle={subtitleStyle}
+                      ratio={ratio}
                     />
                   </ScrollArea>
                 </div>
@@ -317,7 +772,7 @@ export function MainApp() {
 
       {/* Processing Overlay */}
       <ProcessingOverlay
-        isVisible={isProcessing}
+        isVisible={isProcessing && !isStreaming}
         statusMessage={statusMessage}
         progress={progress}
         canCancel={status !== "idle" && status !== "ready"}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useState } from "react";
+import { HardDrive, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  evictCachedModel,
+  isModelCacheSupported,
+  isSameCachedModel,
+  listCachedModels,
+  type CachedModel,
+} from "@/lib/model-cache";
+import { formatBytes } from "@/lib/utils";
+import { type ModelSelection } from "@/lib/models";
+
+interface ModelManagerProps {
+  activeModel: ModelSelection;
+  className?: string;
+}
+
+export function ModelManager({ activeModel, className = "" }: ModelManagerProps) {
+  const [models, setModels] = useState<CachedModel[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [evictingId, setEvictingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Resolved after mount so server and client render the same markup
+  const [isSupported, setIsSupported] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setModels(await listCachedModels());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read the model cache");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isModelCacheSupported()) {
+      return;
+    }
+    setIsSupported(true);
+    refresh();
+  }, [refresh]);
+
+  const handleEvict = async (model: CachedModel) => {
+    setEvictingId(model.id);
+    try {
+      await evictCachedModel(model);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to evict model");
+    } finally {
+      setEvictingId(null);
+    }
+  };
+
+  const totalBytes = models.reduce((total, model) => total + model.bytes, 0);
+
+  if (!isSupported) {
+    return null;
+  }
+
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <HardDrive className="h-4 w-4" />
+          <span className="text-sm font-medium">Downloaded models</span>
+          <span className="text-xs text-muted-foreground">
+            {formatBytes(totalBytes)}
+          </span>
+        </div>
+        <Button
+          onClick={refresh}
+          variant="neutral"
+          size="sm"
+          disabled={isLoading}
+          title="Refresh cache contents"
+        >
+          <RefreshCw className={`h-3 w-3 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {models.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {isLoading
+            ? "Reading browser cache..."
+            : "No models cached yet. The selected model downloads on first use."}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {models.map((model) => {
+            const isActive = isSameCachedModel(model.id, activeModel.id);
+
+            return (
+              <li
+                key={model.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="truncate" title={model.id}>
+                    {model.id}
+                    {isActive && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        (selected)
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(model.bytes)} · {model.files} files
+                  </p>
+                </div>
+                <Button
+                  onClick={() => handleEvict(model)}
+                  variant="noShadow"
+                  size="icon"
+                  className="p-1 h-8 w-8 shrink-0"
+                  disabled={evictingId !== null}
+                  title="Remove from browser cache"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
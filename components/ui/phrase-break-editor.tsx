@@ -0,0 +1,73 @@
+import { CornerDownLeft, Dot, Link2 } from "lucide-react";
+import { type ProcessedWord } from "@/lib/utils";
+import { type PhraseBreak } from "@/lib/transcript-editing";
+
+interface PhraseBreakEditorProps {
+  words: ProcessedWord[];
+  chunks: Array<{ phraseBreak?: PhraseBreak }>;
+  onChange: (sourceIndex: number, phraseBreak?: PhraseBreak) => void;
+  className?: string;
+}
+
+// Clicking a marker cycles automatic -> always break -> never break
+const NEXT_BREAK: Record<PhraseBreak | "auto", PhraseBreak | undefined> = {
+  auto: "force",
+  force: "never",
+  never: undefined,
+};
+
+const BREAK_TITLES: Record<PhraseBreak | "auto", string> = {
+  auto: "Automatic line break before this word",
+  force: "Always break before this word",
+  never: "Never break before this word",
+};
+
+/**
+ * Words of one phrase with a marker in front of each, for pinning the line
+ * breaks the automatic grouping would otherwise choose.
+ */
+export function PhraseBreakEditor({
+  words,
+  chunks,
+  onChange,
+  className = "",
+}: PhraseBreakEditorProps) {
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-1 text-xs ${className}`}
+      onClick={(e) => e.stopPropagation()}
+      role="presentation"
+    >
+      {words.map((word, index) => {
+        if (word.sourceIndex === undefined) {
+          return null;
+        }
+        const sourceIndex = word.sourceIndex;
+        const current = chunks[sourceIndex]?.phraseBreak ?? "auto";
+
+        return (
+          <span key={`${sourceIndex}-${index}`} className="flex items-center">
+            <button
+              type="button"
+              onClick={() => onChange(sourceIndex, NEXT_BREAK[current])}
+              className={`rounded p-0.5 hover:bg-muted ${
+                current === "auto" ? "text-muted-foreground" : "text-foreground"
+              }`}
+              title={BREAK_TITLES[current]}
+              aria-label={BREAK_TITLES[current]}
+            >
+              {current === "force" ? (
+                <CornerDownLeft className="h-3 w-3" />
+              ) : current === "never" ? (
+                <Link2 className="h-3 w-3" />
+              ) : (
+                <Dot className="h-3 w-3" />
+              )}
+            </button>
+            <span>{word.text}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Slider } from "@/components/ui/slider";
+import { Button } from "@/components/ui/button";
+import { DEFAULT_PHRASE_GROUPING, type PhraseGroupingOptions } from "@/lib/utils";
+
+interface PhraseGroupingSettingsProps {
+  grouping: PhraseGroupingOptions;
+  onChange: (grouping: PhraseGroupingOptions) => void;
+  className?: string;
+}
+
+const groupingSliders: Array<{
+  key: keyof PhraseGroupingOptions;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}> = [
+  {
+    key: "maxWords",
+    label: "Words per phrase",
+    min: 1,
+    max: 15,
+    step: 1,
+    format: (value) => `up to ${value}`,
+  },
+  {
+    key: "maxDuration",
+    label: "Phrase length",
+    min: 0.5,
+    max: 10,
+    step: 0.5,
+    format: (value) => `up to ${value.toFixed(1)}s`,
+  },
+  {
+    key: "maxGap",
+    label: "Break on pauses",
+    min: 0.1,
+    max: 2,
+    step: 0.1,
+    format: (value) => `longer than ${value.toFixed(1)}s`,
+  },
+];
+
+export function PhraseGroupingSettings({
+  grouping,
+  onChange,
+  className = "",
+}: PhraseGroupingSettingsProps) {
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium">Phrase grouping</h4>
+          <p className="text-xs text-muted-foreground">
+            Manual line breaks set in the transcript always win.
+          </p>
+        </div>
+        <Button
+          variant="neutral"
+          size="sm"
+          onClick={() => onChange(DEFAULT_PHRASE_GROUPING)}
+        >
+          Reset
+        </Button>
+      </div>
+
+      {groupingSliders.map((slider) => (
+        <div key={slider.key} className="space-y-2">
+          <div className="flex justify-between">
+            <label className="text-sm font-medium">{slider.label}</label>
+            <span className="text-xs text-muted-foreground">
+              {slider.format(grouping[slider.key])}
+            </span>
+          </div>
+          <Slider
+            value={[grouping[slider.key]]}
+            onValueChange={(values) => onChange({ ...grouping, [slider.key]: values[0] })}
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            className="w-full"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
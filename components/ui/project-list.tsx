@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Copy, Download, FolderOpen, Pencil, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  deleteProject,
+  duplicateProject,
+  exportProjectBundle,
+  importProjectBundle,
+  isProjectStoreSupported,
+  listProjects,
+  PROJECT_BUNDLE_EXTENSION,
+  renameProject,
+  type ProjectSummary,
+} from "@/lib/project-store";
+import { formatBytes } from "@/lib/utils";
+
+interface ProjectListProps {
+  onOpen: (id: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ProjectList({ onOpen, disabled = false, className = "" }: ProjectListProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Resolved after mount so server and client render the same markup
+  const [isSupported, setIsSupported] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read saved projects");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isProjectStoreSupported()) {
+      return;
+    }
+    setIsSupported(true);
+    refresh();
+  }, [refresh]);
+
+  // Runs one project action, then reloads the list whatever the outcome
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+      await refresh();
+    }
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const { id, name } = renaming;
+    setRenaming(null);
+    if (name.trim()) {
+      runAction(id, () => renameProject(id, name.trim()));
+    }
+  };
+
+  const handleExport = (project: ProjectSummary) =>
+    runAction(project.id, async () => {
+      const bundle = await exportProjectBundle(project.id);
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${project.name}${PROJECT_BUNDLE_EXTENSION}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      runAction(project.id, () => deleteProject(project.id));
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again
+    event.target.value = "";
+    if (file) {
+      runAction("import", () => importProjectBundle(file));
+    }
+  };
+
+  if (!isSupported) {
+    return null;
+  }
+
+  const isBusy = disabled || busyId !== null;
+
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FolderOpen className="h-4 w-4" />
+          <span className="text-sm font-medium">Projects</span>
+        </div>
+        <Button
+          onClick={() => importInputRef.current?.click()}
+          variant="neutral"
+          size="sm"
+          disabled={isBusy}
+          title={`Import a ${PROJECT_BUNDLE_EXTENSION} project`}
+        >
+          <Upload className="h-3 w-3" />
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={PROJECT_BUNDLE_EXTENSION}
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Finished transcripts are saved here automatically, with their edits and styling.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {projects.map((project) => (
+            <li
+              key={project.id}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              {renaming?.id === project.id ? (
+                <Input
+                  value={renaming.name}
+                  onChange={(event) =>
+                    setRenaming({ id: project.id, name: event.target.value })
+                  }
+                  onBlur={commitRename}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") commitRename();
+                    if (event.key === "Escape") setRenaming(null);
+                  }}
+                  aria-label="Project name"
+                  className="h-8"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onOpen(project.id)}
+                  className="min-w-0 text-left hover:underline disabled:opacity-50"
+                  disabled={isBusy}
+                  title="Open project"
+                >
+                  <p className="truncate">{project.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(project.updatedAt).toLocaleString()} ·{" "}
+                    {formatBytes(project.media.size)}
+                  </p>
+                </button>
+              )}
+              <div className="flex shrink-0 gap-1">
+                {[
+                  {
+                    title: "Rename",
+                    icon: Pencil,
+                    onClick: () => setRenaming({ id: project.id, name: project.name }),
+                  },
+                  {
+                    title: "Duplicate",
+                    icon: Copy,
+                    onClick: () => runAction(project.id, () => duplicateProject(project.id)),
+                  },
+                  {
+                    title: `Export as ${PROJECT_BUNDLE_EXTENSION}`,
+                    icon: Download,
+                    onClick: () => handleExport(project),
+                  },
+                  { title: "Delete", icon: Trash2, onClick: () => handleDelete(project) },
+                ].map(({ title, icon: Icon, onClick }) => (
+                  <Button
+                    key={title}
+                    onClick={onClick}
+                    variant="noShadow"
+                    size="icon"
+                    className="p-1 h-8 w-8"
+                    disabled={isBusy}
+                    title={title}
+                  >
+                    <Icon className="h-3 w-3" />
+                  </Button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
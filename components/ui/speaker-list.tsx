@@ -0,0 +1,63 @@
+import { Users } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { SPEAKER_COLORS, type Speaker } from "@/lib/speakers";
+
+interface SpeakerListProps {
+  speakers: Speaker[];
+  onChange: (speakers: Speaker[], label: string) => void;
+  className?: string;
+}
+
+export function SpeakerList({ speakers, onChange, className = "" }: SpeakerListProps) {
+  const updateSpeaker = (id: string, update: Partial<Speaker>, label: string) => {
+    onChange(
+      speakers.map((speaker) =>
+        speaker.id === id ? { ...speaker, ...update } : speaker
+      ),
+      label
+    );
+  };
+
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center gap-2">
+        <Users className="h-4 w-4" />
+        <span className="text-sm font-medium">Speakers</span>
+      </div>
+      <ul className="space-y-2">
+        {speakers.map((speaker, index) => (
+          <li key={speaker.id} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={
+                speaker.style.color ?? SPEAKER_COLORS[index % SPEAKER_COLORS.length]
+              }
+              onChange={(event) =>
+                updateSpeaker(
+                  speaker.id,
+                  { style: { ...speaker.style, color: event.target.value } },
+                  `Recolor ${speaker.name || speaker.id}`
+                )
+              }
+              className="h-8 w-8 shrink-0 cursor-pointer rounded border"
+              title="Caption color"
+            />
+            <Input
+              value={speaker.name}
+              onChange={(event) =>
+                updateSpeaker(
+                  speaker.id,
+                  { name: event.target.value },
+                  `Rename ${speaker.id}`
+                )
+              }
+              placeholder={speaker.id}
+              aria-label={`Name for ${speaker.id}`}
+              className="h-8"
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { type SpeechRegion } from "@/lib/audio-utils";
+import { formatTime } from "@/lib/utils";
+
+interface SpeechActivityBarProps {
+  regions: SpeechRegion[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+/**
+ * Speech/silence map from the VAD pre-pass. Shaded stretches were sent to the
+ * model; the gaps were skipped as silence. Clicking seeks the video.
+ */
+export function SpeechActivityBar({
+  regions,
+  duration,
+  currentTime,
+  onSeek,
+  className = "",
+}: SpeechActivityBarProps) {
+  if (duration <= 0 || regions.length === 0) {
+    return null;
+  }
+
+  const speechSeconds = regions.reduce(
+    (total, region) => total + (region.end - region.start),
+    0
+  );
+  const toPercent = (time: number) =>
+    `${Math.max(0, Math.min(100, (time / duration) * 100))}%`;
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    onSeek(((event.clientX - bounds.left) / bounds.width) * duration);
+  };
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Speech detected</span>
+        <span>
+          {formatTime(speechSeconds)} of {formatTime(duration)} transcribed
+        </span>
+      </div>
+      <div
+        className="relative h-3 w-full cursor-pointer overflow-hidden rounded-full bg-secondary"
+        onClick={handleClick}
+        role="presentation"
+      >
+        {regions.map((region) => (
+          <div
+            key={region.start}
+            className="absolute inset-y-0 bg-main"
+            style={{
+              left: toPercent(region.start),
+              width: toPercent(region.end - region.start),
+            }}
+            title={`${formatTime(region.start)} – ${formatTime(region.end)}`}
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-black"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useRef, useState } from "react";
+import { FileText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { TranscriptionResult } from "@/hooks/useTranscription";
+import { importSubtitleFile, SUBTITLE_IMPORT_ACCEPT } from "@/lib/utils";
+
+interface SubtitleImportProps {
+  // The parsed file, kept by the parent until media is selected
+  imported: { name: string; result: TranscriptionResult } | null;
+  onImport: (imported: { name: string; result: TranscriptionResult } | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SubtitleImport({
+  imported,
+  onImport,
+  disabled = false,
+  className = "",
+}: SubtitleImportProps) {
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow selecting the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      onImport({ name: file.name, result: await importSubtitleFile(file) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to read the subtitles");
+    }
+  };
+
+  return (
+    <div className={`rounded-md border border-border/50 p-3 space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          <span className="text-sm font-medium">Existing subtitles</span>
+        </div>
+        {imported ? (
+          <Button
+            onClick={() => onImport(null)}
+            variant="neutral"
+            size="sm"
+            disabled={disabled}
+            title="Transcribe instead"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        ) : (
+          <Button
+            onClick={() => inputRef.current?.click()}
+            variant="neutral"
+            size="sm"
+            disabled={disabled}
+          >
+            Import subtitle file
+          </Button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={SUBTITLE_IMPORT_ACCEPT}
+          onChange={handleChange}
+          className="hidden"
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {imported
+          ? `${imported.name}: ${imported.result.chunks.length} words loaded. Select the media they belong to; it will not be transcribed.`
+          : "Restyle and burn in captions you already have instead of transcribing."}
+      </p>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
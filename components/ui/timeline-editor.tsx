@@ -0,0 +1,400 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { WAVEFORM_BINS_PER_SECOND, type SpeechRegion } from "@/lib/audio-utils";
+import {
+  formatTime,
+  processTranscriptChunks,
+  type PhraseGroupingOptions,
+} from "@/lib/utils";
+import { pinPhrase, retimeCue } from "@/lib/transcript-editing";
+
+interface TimelineChunk {
+  text: string;
+  timestamp: [number, number];
+  disabled?: boolean;
+  speaker?: string;
+}
+
+interface TimelineEditorProps<T extends TimelineChunk> {
+  chunks: T[];
+  mode: "word" | "phrase";
+  grouping?: PhraseGroupingOptions;
+  duration: number;
+  currentTime: number;
+  // Levels at WAVEFORM_BINS_PER_SECOND, scaled to a peak of 1
+  waveform?: Float32Array | null;
+  // Edges of detected speech are snap targets next to word boundaries
+  speechRegions?: SpeechRegion[];
+  onSeek: (time: number) => void;
+  onChunksChange?: (chunks: T[], label: string) => void;
+  className?: string;
+}
+
+type DragEdge = "start" | "end" | "move";
+
+interface DragState {
+  cueIndex: number;
+  edge: DragEdge;
+  pointerX: number;
+  original: [number, number];
+  // Earliest start and latest end allowed by the neighbouring cues
+  bounds: [number, number];
+}
+
+const TIMELINE_HEIGHT = 96;
+const DEFAULT_PIXELS_PER_SECOND = 40;
+const MIN_PIXELS_PER_SECOND = 5;
+const MAX_PIXELS_PER_SECOND = 320;
+const ZOOM_STEP = 1.5;
+// Edges within this many pixels of a snap target jump onto it
+const SNAP_PIXELS = 8;
+// Pointer travel below this is a click (seek), not a drag
+const CLICK_PIXELS = 3;
+const MIN_CUE_SECONDS = 0.05;
+
+const DRAG_LABELS: Record<DragEdge, string> = {
+  start: "Adjust cue start",
+  end: "Adjust cue end",
+  move: "Move cue",
+};
+
+/**
+ * Horizontal timeline of the cues over the audio waveform. Cue edges can be
+ * dragged and whole cues moved; the result is written back to the word
+ * timestamps the cues are built from.
+ */
+export function TimelineEditor<T extends TimelineChunk>({
+  chunks,
+  mode,
+  grouping,
+  duration,
+  currentTime,
+  waveform,
+  speechRegions = [],
+  onSeek,
+  onChunksChange,
+  className = "",
+}: TimelineEditorProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(DEFAULT_PIXELS_PER_SECOND);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [draft, setDraft] = useState<{ cueIndex: number; timestamp: [number, number] } | null>(
+    null
+  );
+
+  // Cues as shown in the caption preview, with the word chunks behind each
+  const cues = useMemo(
+    () =>
+      processTranscriptChunks({ chunks }, mode, grouping)
+        .map((cue, index) => ({
+          ...cue,
+          indices:
+            mode === "phrase"
+              ? (cue.words ?? []).flatMap((word) =>
+                  word.sourceIndex === undefined ? [] : [word.sourceIndex]
+                )
+              : [index],
+        }))
+        .filter((cue) => cue.indices.length > 0 && cue.text.trim()),
+    [chunks, mode, grouping]
+  );
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportWidth(entry.contentRect.width);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw only the visible part of the waveform; the track itself can be far
+  // wider than a canvas is allowed to be
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+
+    canvas.width = Math.max(1, Math.round(viewportWidth));
+    canvas.height = TIMELINE_HEIGHT;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!waveform || waveform.length === 0) {
+      return;
+    }
+
+    const binsPerPixel = WAVEFORM_BINS_PER_SECOND / pixelsPerSecond;
+    const middle = canvas.height / 2;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.3)";
+
+    for (let x = 0; x < canvas.width; x++) {
+      const firstBin = Math.floor((scrollLeft + x) * binsPerPixel);
+      const lastBin = Math.max(firstBin + 1, Math.floor((scrollLeft + x + 1) * binsPerPixel));
+      if (firstBin >= waveform.length) {
+        break;
+      }
+      let level = 0;
+      for (let bin = firstBin; bin < Math.min(lastBin, waveform.length); bin++) {
+        level = Math.max(level, waveform[bin]);
+      }
+      const height = Math.max(1, level * (canvas.height - 8));
+      ctx.fillRect(x, middle - height / 2, 1, height);
+    }
+  }, [waveform, pixelsPerSecond, scrollLeft, viewportWidth]);
+
+  // Keep the playhead in view during playback
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || dragRef.current || viewportWidth === 0) {
+      return;
+    }
+    const x = currentTime * pixelsPerSecond;
+    if (x < element.scrollLeft || x > element.scrollLeft + viewportWidth) {
+      element.scrollLeft = Math.max(0, x - viewportWidth / 4);
+    }
+  }, [currentTime, pixelsPerSecond, viewportWidth]);
+
+  // Snap targets only change when a drag starts on another cue
+  const draggedCueIndex = draft?.cueIndex ?? null;
+  const snapTargets = useMemo(() => {
+    if (draggedCueIndex === null) {
+      return [];
+    }
+    const dragged = new Set(cues[draggedCueIndex]?.indices);
+    const targets = chunks.flatMap((chunk, index) =>
+      dragged.has(index) || chunk.disabled ? [] : chunk.timestamp
+    );
+    for (const region of speechRegions) {
+      targets.push(region.start, region.end);
+    }
+    return targets;
+  }, [draggedCueIndex, chunks, cues, speechRegions]);
+
+  // Offset that moves `time` onto the closest snap target, if one is near
+  const getSnapOffset = (time: number): number | null => {
+    const threshold = SNAP_PIXELS / pixelsPerSecond;
+    let best: number | null = null;
+    for (const target of snapTargets) {
+      const offset = target - time;
+      if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+        best = offset;
+      }
+    }
+    return best;
+  };
+
+  const getDraftTimestamp = (drag: DragState, clientX: number): [number, number] => {
+    const delta = (clientX - drag.pointerX) / pixelsPerSecond;
+    const [start, end] = drag.original;
+    const [minStart, maxEnd] = drag.bounds;
+
+    if (drag.edge === "start") {
+      const proposed = start + delta;
+      const snapped = proposed + (getSnapOffset(proposed) ?? 0);
+      return [Math.min(Math.max(snapped, minStart), end - MIN_CUE_SECONDS), end];
+    }
+    if (drag.edge === "end") {
+      const proposed = end + delta;
+      const snapped = proposed + (getSnapOffset(proposed) ?? 0);
+      return [start, Math.max(Math.min(snapped, maxEnd), start + MIN_CUE_SECONDS)];
+    }
+
+    const length = end - start;
+    const proposed = start + delta;
+    const startOffset = getSnapOffset(proposed);
+    const endOffset = getSnapOffset(proposed + length);
+    const offset =
+      startOffset !== null && (endOffset === null || Math.abs(startOffset) <= Math.abs(endOffset))
+        ? startOffset
+        : endOffset ?? 0;
+    const moved = Math.min(Math.max(proposed + offset, minStart), maxEnd - length);
+    return [moved, moved + length];
+  };
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLDivElement>,
+    cueIndex: number,
+    edge: DragEdge
+  ) => {
+    if (event.button !== 0) {
+      return;
+    }
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const cue = cues[cueIndex];
+    const previous = cues[cueIndex - 1];
+    const next = cues[cueIndex + 1];
+    const [start, end] = cue.timestamp;
+    dragRef.current = {
+      cueIndex,
+      edge,
+      pointerX: event.clientX,
+      original: [start, end],
+      bounds: [
+        previous ? Math.min(previous.timestamp[1], start) : 0,
+        next ? Math.max(next.timestamp[0], end) : Math.max(duration, end),
+      ],
+    };
+    setDraft({ cueIndex, timestamp: [start, end] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      setDraft({ cueIndex: drag.cueIndex, timestamp: getDraftTimestamp(drag, event.clientX) });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    dragRef.current = null;
+    setDraft(null);
+
+    if (Math.abs(event.clientX - drag.pointerX) < CLICK_PIXELS) {
+      onSeek(drag.original[0]);
+      return;
+    }
+
+    const timestamp = getDraftTimestamp(drag, event.clientX);
+    if (timestamp[0] !== drag.original[0] || timestamp[1] !== drag.original[1]) {
+      const { indices } = cues[drag.cueIndex];
+      const retimed = retimeCue(chunks, indices, timestamp);
+      // A phrase dragged next to a neighbour or stretched past the grouping
+      // limits keeps its words
+      onChunksChange?.(
+        mode === "phrase" ? pinPhrase(retimed, indices) : retimed,
+        DRAG_LABELS[drag.edge]
+      );
+    }
+  };
+
+  const handleTrackClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, (event.clientX - bounds.left) / pixelsPerSecond));
+  };
+
+  const zoom = (factor: number) => {
+    const element = scrollRef.current;
+    const next = Math.min(
+      MAX_PIXELS_PER_SECOND,
+      Math.max(MIN_PIXELS_PER_SECOND, pixelsPerSecond * factor)
+    );
+    setPixelsPerSecond(next);
+    // Zoom around the playhead
+    if (element) {
+      requestAnimationFrame(() => {
+        element.scrollLeft = Math.max(0, currentTime * next - viewportWidth / 2);
+      });
+    }
+  };
+
+  if (duration <= 0) {
+    return null;
+  }
+
+  const visibleStart = scrollLeft / pixelsPerSecond - 1;
+  const visibleEnd = (scrollLeft + viewportWidth) / pixelsPerSecond + 1;
+  const toPixels = (time: number) => time * pixelsPerSecond;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Timeline · drag cue edges to retime, drag cues to move them</span>
+        <div className="flex gap-1">
+          <Button
+            onClick={() => zoom(1 / ZOOM_STEP)}
+            variant="neutral"
+            size="sm"
+            disabled={pixelsPerSecond <= MIN_PIXELS_PER_SECOND}
+            title="Zoom out"
+          >
+            <ZoomOut className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={() => zoom(ZOOM_STEP)}
+            variant="neutral"
+            size="sm"
+            disabled={pixelsPerSecond >= MAX_PIXELS_PER_SECOND}
+            title="Zoom in"
+          >
+            <ZoomIn className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        className="overflow-x-auto rounded-md border border-border/50 bg-secondary"
+        onScroll={(event) => setScrollLeft(event.currentTarget.scrollLeft)}
+      >
+        <div
+          className="relative cursor-pointer select-none"
+          style={{ width: toPixels(duration), height: TIMELINE_HEIGHT }}
+          onClick={handleTrackClick}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          role="presentation"
+        >
+          <canvas
+            ref={canvasRef}
+            className="sticky left-0 top-0 block pointer-events-none"
+            style={{ width: viewportWidth, height: TIMELINE_HEIGHT }}
+          />
+
+          {cues.map((cue, index) => {
+            const [start, end] =
+              draft?.cueIndex === index ? draft.timestamp : cue.timestamp;
+            if (end < visibleStart || start > visibleEnd) {
+              return null;
+            }
+
+            return (
+              <div
+                key={`${cue.indices[0]}-${index}`}
+                className={`absolute top-6 bottom-6 flex items-center overflow-hidden rounded border-2 border-border text-xs cursor-grab ${
+                  cue.disabled ? "bg-gray-200 opacity-60" : "bg-main"
+                } ${draft?.cueIndex === index ? "cursor-grabbing ring-2 ring-black" : ""}`}
+                style={{
+                  left: toPixels(start),
+                  width: Math.max(2, toPixels(end - start)),
+                }}
+                title={`${cue.text} (${formatTime(start)} – ${formatTime(end)})`}
+                onPointerDown={(event) => handlePointerDown(event, index, "move")}
+                onClick={(event) => event.stopPropagation()}
+              >
+                <div
+                  className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-black/20"
+                  onPointerDown={(event) => handlePointerDown(event, index, "start")}
+                />
+                <span className="truncate px-2">{cue.text}</span>
+                <div
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-black/20"
+                  onPointerDown={(event) => handlePointerDown(event, index, "end")}
+                />
+              </div>
+            );
+          })}
+
+          <div
+            className="absolute inset-y-0 w-0.5 bg-black pointer-events-none"
+            style={{ left: toPixels(currentTime) }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
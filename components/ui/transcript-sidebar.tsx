@@ -1,34 +1,97 @@
 import { useMemo, useState, useRef, useEffect } from "react";
 import {
   formatTime,
-  transcriptToSrt,
-  transcriptToVtt,
+  SUBTITLE_FORMATS,
   processTranscriptChunks,
+  getExportFileBaseName,
+  isLowConfidence,
+  type PhraseGroupingOptions,
   type ProcessedChunk,
-  type ProcessedWord,
 } from "@/lib/utils";
 import { Button } from "./button";
-import { Edit, Ban, Undo2 } from "lucide-react";
+import {
+  Edit,
+  Ban,
+  Undo2,
+  Languages,
+  Scissors,
+  ArrowUpToLine,
+  ArrowDownToLine,
+  WrapText,
+  Search,
+  CircleHelp,
+  Download,
+  ShieldCheck,
+  TriangleAlert,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./select";
+import { FindReplacePanel } from "./find-replace-panel";
+import {
+  applyCaptionFix,
+  CAPTION_LINT_PRESETS,
+  lintCaptions,
+  type CaptionFix,
+  type CaptionIssue,
+} from "@/lib/caption-lint";
+import { PhraseBreakEditor } from "./phrase-break-editor";
+import type { SubtitleStyle } from "./subtitle-styling";
+import { getTranscriptLabel, type TranscriptionTask } from "@/lib/languages";
+import { getSpeakerName, type Speaker } from "@/lib/speakers";
+import {
+  applyPhraseEdit,
+  markReviewed,
+  mergeChunks,
+  mergePhrases,
+  setPhraseBreak,
+  splitChunk,
+  splitPhrase,
+  type PhraseBreak,
+} from "@/lib/transcript-editing";
+import {
+  buildSearchPattern,
+  DEFAULT_SEARCH_OPTIONS,
+  findTranscriptMatches,
+  replaceTranscriptMatches,
+  type TranscriptSearchOptions,
+} from "@/lib/transcript-search";
+import { SpeakerList } from "./speaker-list";
 
 interface TranscriptChunk {
   text: string;
   timestamp: [number, number];
   disabled?: boolean;
+  speaker?: string;
+  phraseBreak?: PhraseBreak;
+  probability?: number;
+}
+
+interface SidebarTranscript {
+  text: string;
+  chunks: TranscriptChunk[];
+  speakers?: Speaker[];
+  language?: string;
+  task?: TranscriptionTask;
 }
 
 interface TranscriptSidebarProps {
-  transcript: {
-    text: string;
-    chunks: TranscriptChunk[];
-  };
+  transcript: SidebarTranscript;
   currentTime: number;
   setCurrentTime: (time: number) => void;
-  onTranscriptUpdate?: (updatedTranscript: {
-    text: string;
-    chunks: TranscriptChunk[];
-  }) => void;
+  // `label` names the edit in the undo history
+  onTranscriptUpdate?: (updatedTranscript: SidebarTranscript, label: string) => void;
   className?: string;
   mode: "word" | "phrase";
+  grouping?: PhraseGroupingOptions;
+  // Styling and frame carried into the formats that keep styling
+  subtitleStyle: SubtitleStyle;
+  ratio?: "16:9" | "9:16";
 }
 
 export function TranscriptSidebar({
@@ -38,16 +101,30 @@ export function TranscriptSidebar({
   onTranscriptUpdate,
   className = "",
   mode,
+  grouping,
+  subtitleStyle,
+  ratio,
 }: TranscriptSidebarProps) {
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editText, setEditText] = useState("");
   const transcriptContainerRef = useRef<HTMLDivElement>(null);
   const activeChunkRef = useRef<HTMLDivElement>(null);
+  const editTextareaRef = useRef<HTMLTextAreaElement>(null);
+  // Source index of a word in the phrase whose line breaks are being edited;
+  // a word index stays valid while the phrase regroups around it
+  const [breakEditorSource, setBreakEditorSource] = useState<number | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchOptions, setSearchOptions] =
+    useState<TranscriptSearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [replacement, setReplacement] = useState("");
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [exportFormatId, setExportFormatId] = useState("srt");
+  const [lintPresetId, setLintPresetId] = useState("off");
   const [currentActiveElement, setCurrentActiveElement] = useState<HTMLDivElement | null>(null);
 
   // Process transcript chunks based on the current mode
   const displayChunks: ProcessedChunk[] = useMemo(() => {
-    const processed = processTranscriptChunks(transcript, mode);
+    const processed = processTranscriptChunks(transcript, mode, grouping);
 
     return processed.map((chunk, index) => {
       if (mode === "phrase" && chunk.words) {
@@ -71,7 +148,56 @@ export function TranscriptSidebar({
         disabled: transcript.chunks[index]?.disabled ?? false,
       };
     });
-  }, [transcript, mode]);
+  }, [transcript, mode, grouping]);
+
+  // Caption checks only make sense for phrases; single words are always short
+  const lintIssues = useMemo(() => {
+    const preset = CAPTION_LINT_PRESETS.find((entry) => entry.id === lintPresetId);
+    const issuesByCue = new Map<number, CaptionIssue[]>();
+    if (!preset || mode !== "phrase") {
+      return issuesByCue;
+    }
+    for (const issue of lintCaptions(displayChunks, preset.rules)) {
+      issuesByCue.set(issue.cueIndex, [...(issuesByCue.get(issue.cueIndex) ?? []), issue]);
+    }
+    return issuesByCue;
+  }, [displayChunks, lintPresetId, mode]);
+  const lintIssueCount = [...lintIssues.values()].reduce(
+    (count, issues) => count + issues.length,
+    0
+  );
+
+  const { searchPattern, searchError } = useMemo(() => {
+    try {
+      return { searchPattern: buildSearchPattern(searchOptions), searchError: null };
+    } catch {
+      return { searchPattern: null, searchError: "Invalid regular expression" };
+    }
+  }, [searchOptions]);
+
+  const matches = useMemo(
+    () => (isSearchOpen ? findTranscriptMatches(transcript.chunks, searchPattern) : []),
+    [isSearchOpen, transcript.chunks, searchPattern]
+  );
+  const currentMatch = matches.length > 0 ? Math.min(activeMatch, matches.length - 1) : -1;
+
+  // Word chunks to highlight: every match, and the current one more strongly
+  const { matchedChunks, currentMatchChunks } = useMemo(
+    () => ({
+      matchedChunks: new Set(matches.flatMap((match) => match.chunkIndices)),
+      currentMatchChunks: new Set(matches[currentMatch]?.chunkIndices ?? []),
+    }),
+    [matches, currentMatch]
+  );
+
+  // Word chunks worth proofreading, in transcript order
+  const uncertainIndices = useMemo(
+    () =>
+      transcript.chunks.flatMap((chunk, index) =>
+        isLowConfidence(chunk) && !chunk.disabled ? [index] : []
+      ),
+    [transcript.chunks]
+  );
 
   // Add effect to scroll to active chunk when currentTime changes
   useEffect(() => {
@@ -112,43 +238,169 @@ export function TranscriptSidebar({
     return () => clearTimeout(timeoutId);
   }, [currentTime, currentActiveElement]);
 
-  const jsonTranscript = useMemo(() => {
-    return JSON.stringify(transcript, null, 2).replace(
-      /( {4}"timestamp": )\[\s+(\S+)\s+(\S+)\s+\]/gm,
-      "$1[$2 $3]"
-    );
-  }, [transcript]);
+  const exportFormat =
+    SUBTITLE_FORMATS.find((format) => format.id === exportFormatId) ?? SUBTITLE_FORMATS[0];
 
-  const handleDownloadJson = () => {
-    const blob = new Blob([jsonTranscript], { type: "application/json" });
+  const handleDownload = () => {
+    const content = exportFormat.serialize(transcript, {
+      mode,
+      grouping,
+      style: subtitleStyle,
+      ratio,
+    });
+    const blob = new Blob([content], { type: exportFormat.mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "transcript.json";
+    a.download = `${getExportFileBaseName(transcript, exportFormat.baseName)}${
+      exportFormat.extension
+    }`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const handleDownloadSrt = () => {
-    const srtContent = transcriptToSrt(transcript, mode);
-    const blob = new Blob([srtContent], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "subtitles.srt";
-    a.click();
-    URL.revokeObjectURL(url);
+  // Word chunks a displayed cue is built from
+  const getSourceIndices = (index: number): number[] => {
+    if (mode === "word") {
+      return [index];
+    }
+    return (displayChunks[index].words ?? []).flatMap((word) =>
+      word.sourceIndex === undefined ? [] : [word.sourceIndex]
+    );
   };
 
-  const handleDownloadVtt = () => {
-    const vttContent = transcriptToVtt(transcript, mode);
-    const blob = new Blob([vttContent], { type: "text/vtt" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "subtitles.vtt";
-    a.click();
-    URL.revokeObjectURL(url);
+  const updateChunks = (updatedChunks: TranscriptChunk[], label: string) => {
+    if (updatedChunks === transcript.chunks || !onTranscriptUpdate) {
+      return;
+    }
+    onTranscriptUpdate(
+      {
+        ...transcript,
+        text: updatedChunks.map((chunk) => chunk.text).join(" "),
+        chunks: updatedChunks,
+      },
+      label
+    );
+  };
+
+  const applyLintFix = (index: number, fix: CaptionFix) => {
+    updateChunks(applyCaptionFix(transcript.chunks, getSourceIndices(index), fix), fix.label);
+  };
+
+  const setWordPhraseBreak = (sourceIndex: number, phraseBreak?: PhraseBreak) => {
+    const updatedChunks = [...transcript.chunks];
+    updatedChunks[sourceIndex] = setPhraseBreak(updatedChunks[sourceIndex], phraseBreak);
+    updateChunks(
+      updatedChunks,
+      phraseBreak === "force"
+        ? "Force line break"
+        : phraseBreak === "never"
+          ? "Prevent line break"
+          : "Reset line break"
+    );
+  };
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+
+    const next = (currentMatch + direction + matches.length) % matches.length;
+    setActiveMatch(next);
+    setCurrentTime(transcript.chunks[matches[next].chunkIndices[0]].timestamp[0]);
+  };
+
+  const replaceMatches = (all: boolean) => {
+    if (!searchPattern || currentMatch < 0) return;
+
+    updateChunks(
+      replaceTranscriptMatches(
+        transcript.chunks,
+        all ? matches : [matches[currentMatch]],
+        replacement
+      ),
+      `${all ? "Replace all" : "Replace"} "${searchOptions.query}"`
+    );
+  };
+
+  const goToNextUncertainWord = () => {
+    if (uncertainIndices.length === 0) return;
+
+    // The first flagged word after the playhead, wrapping around at the end
+    const next =
+      uncertainIndices.find(
+        (index) => transcript.chunks[index].timestamp[0] > currentTime + 0.01
+      ) ?? uncertainIndices[0];
+    setCurrentTime(transcript.chunks[next].timestamp[0]);
+  };
+
+  const renderChunkText = (chunk: ProcessedChunk, index: number) => {
+    const isUncertain = (sourceIndex: number) =>
+      isLowConfidence(transcript.chunks[sourceIndex] ?? {});
+    const sourceIndices = getSourceIndices(index);
+    if (
+      !sourceIndices.some(
+        (sourceIndex) => matchedChunks.has(sourceIndex) || isUncertain(sourceIndex)
+      )
+    ) {
+      return chunk.text;
+    }
+
+    const markClass = (sourceIndex: number) =>
+      currentMatchChunks.has(sourceIndex) ? "bg-yellow-400" : "bg-yellow-200";
+
+    const renderWord = (text: string, sourceIndex: number) => {
+      const probability = transcript.chunks[sourceIndex]?.probability ?? 1;
+      const content = isUncertain(sourceIndex) ? (
+        <span
+          className="underline decoration-wavy decoration-orange-500"
+          title={`${Math.round(probability * 100)}% confidence`}
+        >
+          {text}
+        </span>
+      ) : (
+        text
+      );
+      return matchedChunks.has(sourceIndex) ? (
+        <mark className={markClass(sourceIndex)}>{content}</mark>
+      ) : (
+        content
+      );
+    };
+
+    if (mode === "word" || !chunk.words) {
+      return renderWord(chunk.text, index);
+    }
+    return chunk.words.map((word, wordIndex) => (
+      <span key={`${word.sourceIndex}-${wordIndex}`}>
+        {wordIndex > 0 && " "}
+        {word.sourceIndex !== undefined ? renderWord(word.text, word.sourceIndex) : word.text}
+      </span>
+    ));
+  };
+
+  const splitAtCursor = () => {
+    if (editingIndex === null) return;
+
+    const offset = editTextareaRef.current?.selectionStart ?? 0;
+    updateChunks(
+      mode === "phrase"
+        ? splitPhrase(transcript.chunks, getSourceIndices(editingIndex), offset)
+        : splitChunk(transcript.chunks, editingIndex, offset),
+      "Split cue"
+    );
+    cancelEdit();
+  };
+
+  const mergeWithNeighbour = (index: number, direction: "previous" | "next") => {
+    const [first, second] =
+      direction === "next" ? [index, index + 1] : [index - 1, index];
+    if (first < 0 || second >= displayChunks.length) return;
+
+    updateChunks(
+      mode === "phrase"
+        ? mergePhrases(transcript.chunks, getSourceIndices(second))
+        : mergeChunks(transcript.chunks, first, second),
+      direction === "next" ? "Merge with next cue" : "Merge with previous cue"
+    );
   };
 
   const startEditing = (index: number) => {
@@ -159,33 +411,31 @@ export function TranscriptSidebar({
   const saveEdit = () => {
     if (editingIndex === null) return;
 
-    // For phrase mode, we need to handle editing differently
-    // since we're editing processed chunks, not the original chunks
-    if (mode === "phrase") {
-      // In phrase mode, we would need more complex logic to update the original chunks
-      // For now, we'll just update the display and show a warning
-      console.warn("Editing in phrase mode is not fully supported yet. Changes may not persist.");
-    }
+    let updatedChunks = [...transcript.chunks];
 
-    // Create a new transcript object with the updated chunk
-    const updatedChunks = [...transcript.chunks];
-    
-    // For word mode, direct update
-    if (mode === "word") {
-      updatedChunks[editingIndex] = {
+    if (mode === "phrase") {
+      // Realign the edited phrase with the word chunks it was built from
+      updatedChunks = applyPhraseEdit(
+        updatedChunks,
+        getSourceIndices(editingIndex),
+        editText
+      );
+    } else if (updatedChunks[editingIndex].text !== editText) {
+      updatedChunks[editingIndex] = markReviewed({
         ...updatedChunks[editingIndex],
         text: editText,
-      };
+      });
     }
 
     const updatedTranscript = {
+      ...transcript,
       text: updatedChunks.map((chunk) => chunk.text).join(" "),
       chunks: updatedChunks,
     };
 
     // Call the update function if provided
     if (onTranscriptUpdate) {
-      onTranscriptUpdate(updatedTranscript);
+      onTranscriptUpdate(updatedTranscript, "Edit text");
     }
 
     // Reset editing state
@@ -204,33 +454,30 @@ export function TranscriptSidebar({
       // that make up this phrase
       const phraseToToggle = displayChunks[index];
       if (phraseToToggle.words) {
-        const isCurrentlyDisabled = phraseToToggle.words.some((word: ProcessedWord) =>
-          transcript.chunks.find(
-            (chunk) =>
-              chunk.timestamp[0] === word.timestamp[0] &&
-              chunk.timestamp[1] === word.timestamp[1]
-          )?.disabled
+        // Split words can share a boundary timestamp with the next cue, so
+        // match the phrase's words by source index rather than by timing
+        const sourceIndices = new Set(getSourceIndices(index));
+        const isCurrentlyDisabled = [...sourceIndices].some(
+          (sourceIndex) => transcript.chunks[sourceIndex]?.disabled
         );
 
-        const updatedChunks = transcript.chunks.map((originalChunk) => {
-          const isPartOfPhrase = phraseToToggle.words!.some((phraseWord) =>
-            phraseWord.timestamp[0] === originalChunk.timestamp[0] &&
-            phraseWord.timestamp[1] === originalChunk.timestamp[1]
-          );
-          
-          if (isPartOfPhrase) {
-            return { ...originalChunk, disabled: !isCurrentlyDisabled };
-          }
-          return originalChunk;
-        });
+        const updatedChunks = transcript.chunks.map((originalChunk, chunkIndex) =>
+          sourceIndices.has(chunkIndex)
+            ? { ...originalChunk, disabled: !isCurrentlyDisabled }
+            : originalChunk
+        );
 
         const updatedTranscript = {
+          ...transcript,
           text: updatedChunks.filter(chunk => !chunk.disabled).map((chunk) => chunk.text).join(" "),
           chunks: updatedChunks,
         };
 
         if (onTranscriptUpdate) {
-          onTranscriptUpdate(updatedTranscript);
+          onTranscriptUpdate(
+            updatedTranscript,
+            isCurrentlyDisabled ? "Enable phrase" : "Disable phrase"
+          );
         }
       }
     } else {
@@ -240,18 +487,102 @@ export function TranscriptSidebar({
       );
       
       const updatedTranscript = {
+        ...transcript,
         text: updatedChunks.filter(chunk => !chunk.disabled).map((chunk) => chunk.text).join(" "),
         chunks: updatedChunks,
       };
 
       if (onTranscriptUpdate) {
-        onTranscriptUpdate(updatedTranscript);
+        onTranscriptUpdate(
+          updatedTranscript,
+          transcript.chunks[index]?.disabled ? "Enable word" : "Disable word"
+        );
       }
     }
   };
 
   return (
     <div className={`flex flex-col h-full ${className}`}>
+      {transcript.task === "translate" && (
+        <div className="mb-2 flex items-center gap-2 rounded-md border border-border/50 px-3 py-2 text-xs text-muted-foreground">
+          <Languages className="h-3 w-3" />
+          {getTranscriptLabel(transcript)}
+        </div>
+      )}
+      {transcript.speakers && transcript.speakers.length > 0 && (
+        <SpeakerList
+          speakers={transcript.speakers}
+          onChange={(speakers, label) =>
+            onTranscriptUpdate?.({ ...transcript, speakers }, label)
+          }
+          className="mb-2"
+        />
+      )}
+      <div className="mb-2 flex justify-end gap-2">
+        <Select value={lintPresetId} onValueChange={setLintPresetId} disabled={mode !== "phrase"}>
+          <SelectTrigger
+            className="mr-auto h-9 w-auto gap-1 text-xs"
+            aria-label="Caption check"
+            title={
+              mode === "phrase"
+                ? "Check cues against broadcast reading-speed rules"
+                : "Caption checks apply to phrase mode"
+            }
+          >
+            <ShieldCheck className="h-3 w-3" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value="off">No caption check</SelectItem>
+              {CAPTION_LINT_PRESETS.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  {preset.label} rules
+                  {preset.id === lintPresetId && ` (${lintIssueCount} issues)`}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={goToNextUncertainWord}
+          variant="neutral"
+          size="sm"
+          className="flex items-center gap-1"
+          disabled={uncertainIndices.length === 0}
+          title="Jump to the next low-confidence word"
+        >
+          <CircleHelp className="h-3 w-3" />
+          Next uncertain ({uncertainIndices.length})
+        </Button>
+        <Button
+          onClick={() => setIsSearchOpen((open) => !open)}
+          variant={isSearchOpen ? "default" : "neutral"}
+          size="sm"
+          className="flex items-center gap-1"
+        >
+          <Search className="h-3 w-3" />
+          Find & replace
+        </Button>
+      </div>
+      {isSearchOpen && (
+        <FindReplacePanel
+          className="mb-2"
+          options={searchOptions}
+          onOptionsChange={(options) => {
+            setSearchOptions(options);
+            setActiveMatch(0);
+          }}
+          replacement={replacement}
+          onReplacementChange={setReplacement}
+          matchCount={matches.length}
+          activeMatch={currentMatch}
+          onNavigate={goToMatch}
+          onReplace={() => replaceMatches(false)}
+          onReplaceAll={() => replaceMatches(true)}
+          error={searchError}
+        />
+      )}
       <div className="flex-1 overflow-y-auto max-h-96" ref={transcriptContainerRef}>
         <div className="space-y-2 p-2">
           {displayChunks.map((chunk, i) => {
@@ -261,6 +592,14 @@ export function TranscriptSidebar({
 
             // Check if this chunk is disabled
             const isDisabled = chunk.disabled ?? false;
+            const isEditingBreaks =
+              mode === "phrase" &&
+              breakEditorSource !== null &&
+              getSourceIndices(i).includes(breakEditorSource);
+            const speakerName =
+              chunk.speaker !== displayChunks[i - 1]?.speaker
+                ? getSpeakerName(transcript.speakers, chunk.speaker)
+                : undefined;
 
             return (
               <div
@@ -286,6 +625,9 @@ export function TranscriptSidebar({
                   }
                 }}
               >
+                {speakerName && (
+                  <p className="text-xs font-semibold mb-1">{speakerName}</p>
+                )}
                 <div className="flex justify-between text-xs text-muted-foreground mb-1">
                   <span>{formatTime(start)}</span>
                   <span>{formatTime(end)}</span>
@@ -294,6 +636,7 @@ export function TranscriptSidebar({
                 {isEditing ? (
                   <div className="space-y-2">
                     <textarea
+                      ref={editTextareaRef}
                       value={editText}
                       onChange={(e) => setEditText(e.target.value)}
                       className="w-full p-2 border rounded-md text-sm min-h-[60px]"
@@ -301,6 +644,24 @@ export function TranscriptSidebar({
                       onClick={(e) => e.stopPropagation()}
                     />
                     <div className="flex justify-end gap-2">
+                      <Button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          splitAtCursor();
+                        }}
+                        variant="neutral"
+                        size="sm"
+                        className="mr-auto"
+                        disabled={editText !== chunk.text}
+                        title={
+                          editText !== chunk.text
+                            ? "Save or cancel the text change before splitting"
+                            : "Split this cue at the cursor"
+                        }
+                      >
+                        <Scissors className="h-3 w-3" />
+                        Split here
+                      </Button>
                       <Button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -325,9 +686,51 @@ export function TranscriptSidebar({
                 ) : (
                   <div className="flex justify-between items-start">
                     <p className={`${isActive ? "font-medium" : ""} ${isDisabled ? "line-through text-gray-500" : ""}`}>
-                      {chunk.text}
+                      {renderChunkText(chunk, i)}
                     </p>
                     <div className="flex gap-1">
+                      <Button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          mergeWithNeighbour(i, "previous");
+                        }}
+                        className="p-1"
+                        title="Merge with previous"
+                        size="icon"
+                        variant="noShadow"
+                        disabled={i === 0}
+                      >
+                        <ArrowUpToLine className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          mergeWithNeighbour(i, "next");
+                        }}
+                        className="p-1"
+                        title="Merge with next"
+                        size="icon"
+                        variant="noShadow"
+                        disabled={i === displayChunks.length - 1}
+                      >
+                        <ArrowDownToLine className="h-3 w-3" />
+                      </Button>
+                      {mode === "phrase" && (
+                        <Button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setBreakEditorSource(
+                              isEditingBreaks ? null : getSourceIndices(i)[0] ?? null
+                            );
+                          }}
+                          className="p-1"
+                          title="Line breaks"
+                          size="icon"
+                          variant="noShadow"
+                        >
+                          <WrapText className="h-3 w-3" />
+                        </Button>
+                      )}
                       <Button
                         onClick={(e) => {
                           e.stopPropagation();
@@ -363,6 +766,42 @@ export function TranscriptSidebar({
                     </div>
                   </div>
                 )}
+
+                {!isEditing && lintIssues.has(i) && (
+                  <ul className="mt-1 space-y-1">
+                    {lintIssues.get(i)!.map((issue) => (
+                      <li
+                        key={issue.rule}
+                        className="flex items-center gap-1 text-xs text-orange-700"
+                      >
+                        <TriangleAlert className="h-3 w-3 shrink-0" />
+                        <span className="flex-1">{issue.message}</span>
+                        {issue.fix && (
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              applyLintFix(i, issue.fix!);
+                            }}
+                            variant="neutral"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                          >
+                            {issue.fix.label}
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {isEditingBreaks && !isEditing && chunk.words && (
+                  <PhraseBreakEditor
+                    className="mt-2"
+                    words={chunk.words}
+                    chunks={transcript.chunks}
+                    onChange={setWordPhraseBreak}
+                  />
+                )}
               </div>
             );
           })}
@@ -371,31 +810,30 @@ export function TranscriptSidebar({
 
       <div className="border-t p-4 space-y-2">
         <div className="text-sm font-medium mb-2">Export Subtitles</div>
-        <div className="grid grid-cols-2 gap-2">
-          <Button
-            onClick={handleDownloadJson}
-            className="flex items-center justify-center gap-1 px-3 py-2 "
-          >
-            <Edit />
-            JSON
-          </Button>
-
+        <div className="flex gap-2">
+          <Select value={exportFormat.id} onValueChange={setExportFormatId}>
+            <SelectTrigger className="flex-1" aria-label="Export format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {SUBTITLE_FORMATS.map((format) => (
+                  <SelectItem key={format.id} value={format.id}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
           <Button
-            onClick={handleDownloadSrt}
+            onClick={handleDownload}
             className="flex items-center justify-center gap-1 px-3 py-2 "
           >
-            <Edit />
-            SRT
-          </Button>
-
-          <Button
-            onClick={handleDownloadVtt}
-            className="flex items-center justify-center gap-1 px-3 py-2  col-span-2"
-          >
-            <Edit />
-            WebVTT
+            <Download />
+            Download
           </Button>
         </div>
+        <p className="text-xs text-muted-foreground">{exportFormat.description}</p>
       </div>
     </div>
   );
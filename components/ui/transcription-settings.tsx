@@ -0,0 +1,219 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  AUTO_DETECT_LANGUAGE,
+  WHISPER_LANGUAGES,
+  type TranscriptionLanguage,
+  type TranscriptionTask,
+} from "@/lib/languages";
+import {
+  LOCAL_MODEL_PATH,
+  WHISPER_MODEL_PRESETS,
+  type ModelSelection,
+} from "@/lib/models";
+
+interface TranscriptionSettingsProps {
+  language: TranscriptionLanguage;
+  onLanguageChange: (language: TranscriptionLanguage) => void;
+  task: TranscriptionTask;
+  onTaskChange: (task: TranscriptionTask) => void;
+  model: ModelSelection;
+  onModelChange: (model: ModelSelection) => void;
+  skipSilence: boolean;
+  onSkipSilenceChange: (skipSilence: boolean) => void;
+  diarize: boolean;
+  onDiarizeChange: (diarize: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const languageOptions = [
+  { value: AUTO_DETECT_LANGUAGE, label: "Auto-detect" },
+  ...Object.entries(WHISPER_LANGUAGES)
+    .map(([value, label]) => ({ value, label }))
+    .sort((a, b) => a.label.localeCompare(b.label)),
+];
+
+const taskOptions: Array<{ value: TranscriptionTask; label: string }> = [
+  { value: "transcribe", label: "Transcribe (keep spoken language)" },
+  { value: "translate", label: "Translate to English" },
+];
+
+// Select values for the non-Hub sources; Hub presets use their repo id
+const LOCAL_MODEL_OPTION = "source:local";
+const URL_MODEL_OPTION = "source:url";
+
+function getModelOptionValue(model: ModelSelection): string {
+  if (model.source === "local") return LOCAL_MODEL_OPTION;
+  if (model.source === "url") return URL_MODEL_OPTION;
+  return model.id;
+}
+
+export function TranscriptionSettings({
+  language,
+  onLanguageChange,
+  task,
+  onTaskChange,
+  model,
+  onModelChange,
+  skipSilence,
+  onSkipSilenceChange,
+  diarize,
+  onDiarizeChange,
+  disabled = false,
+  className = "",
+}: TranscriptionSettingsProps) {
+  const handleModelOptionChange = (value: string) => {
+    if (value === LOCAL_MODEL_OPTION) {
+      onModelChange({ source: "local", id: model.source === "local" ? model.id : "" });
+    } else if (value === URL_MODEL_OPTION) {
+      onModelChange({ source: "url", id: model.source === "url" ? model.id : "" });
+    } else {
+      onModelChange({ source: "hub", id: value });
+    }
+  };
+
+  return (
+    <div className={`grid gap-4 sm:grid-cols-3 ${className}`}>
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Spoken language</label>
+        <Select
+          value={language}
+          onValueChange={onLanguageChange}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full p-2 border rounded-md bg-background">
+            <SelectValue placeholder="Select a language" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {languageOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Auto-detect listens to the first 30 seconds to pick the language.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Subtitles</label>
+        <Select
+          value={task}
+          onValueChange={(value) => onTaskChange(value as TranscriptionTask)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full p-2 border rounded-md bg-background">
+            <SelectValue placeholder="Select a task" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {taskOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Translation produces English subtitles directly from foreign speech.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium block">Model</label>
+        <Select
+          value={getModelOptionValue(model)}
+          onValueChange={handleModelOptionChange}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full p-2 border rounded-md bg-background">
+            <SelectValue placeholder="Select a model" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {WHISPER_MODEL_PRESETS.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>
+                  Whisper {preset.label}
+                </SelectItem>
+              ))}
+              <SelectItem value={LOCAL_MODEL_OPTION}>Local directory</SelectItem>
+              <SelectItem value={URL_MODEL_OPTION}>Custom URL</SelectItem>
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        {model.source === "hub" ? (
+          <p className="text-xs text-muted-foreground">
+            {WHISPER_MODEL_PRESETS.find((preset) => preset.id === model.id)
+              ?.description ?? model.id}
+          </p>
+        ) : (
+          <Input
+            value={model.id}
+            onChange={(event) =>
+              onModelChange({ ...model, id: event.target.value })
+            }
+            disabled={disabled}
+            placeholder={
+              model.source === "local"
+                ? "whisper-base_timestamped"
+                : "https://example.com/models/whisper-base_timestamped"
+            }
+            aria-label={model.source === "local" ? "Local model directory" : "Model URL"}
+          />
+        )}
+        {model.source === "local" && (
+          <p className="text-xs text-muted-foreground">
+            Directory served from {LOCAL_MODEL_PATH} (e.g. public{LOCAL_MODEL_PATH}
+            {model.id || "<name>"}).
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between rounded-md border border-border/50 px-3 py-2 sm:col-span-3">
+        <div>
+          <p className="text-sm font-medium">Skip silence</p>
+          <p className="text-xs text-muted-foreground">
+            Only transcribe stretches with speech. Faster on long recordings and
+            avoids text invented during quiet parts.
+          </p>
+        </div>
+        <Switch
+          checked={skipSilence}
+          onCheckedChange={onSkipSilenceChange}
+          disabled={disabled}
+          aria-label="Toggle silence skipping"
+        />
+      </div>
+
+      <div className="flex items-center justify-between rounded-md border border-border/50 px-3 py-2 sm:col-span-3">
+        <div>
+          <p className="text-sm font-medium">Identify speakers</p>
+          <p className="text-xs text-muted-foreground">
+            Label who is speaking so each person can get their own caption
+            color. Downloads two extra models and slows transcription down.
+          </p>
+        </div>
+        <Switch
+          checked={diarize}
+          onCheckedChange={onDiarizeChange}
+          disabled={disabled}
+          aria-label="Toggle speaker identification"
+        />
+      </div>
+    </div>
+  );
+}
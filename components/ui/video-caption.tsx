@@ -4,10 +4,12 @@ import React, { useEffect, useState } from "react";
 import { SubtitleStyle } from "./subtitle-styling";
 import {
   processTranscriptChunks,
+  type PhraseGroupingOptions,
   type ProcessedChunk,
   type ProcessedWord,
 } from "@/lib/utils";
 import { cn } from "@/lib/utils";
+import { resolveSpeakerStyle, type Speaker } from "@/lib/speakers";
 
 interface VideoCaptionProps {
   transcript: {
@@ -16,29 +18,37 @@ interface VideoCaptionProps {
       text: string;
       timestamp: [number, number];
       disabled?: boolean;
+      speaker?: string;
       words?: Array<{
         text: string;
         timestamp: [number, number];
       }>;
     }>;
+    speakers?: Speaker[];
   };
   currentTime: number;
   style: SubtitleStyle;
   mode: "word" | "phrase";
   ratio: "16:9" | "9:16";
+  grouping?: PhraseGroupingOptions;
 }
 
 export function VideoCaption({
   transcript,
   currentTime,
-  style,
+  style: baseStyle,
   mode,
   ratio,
+  grouping,
 }: VideoCaptionProps) {
   const [isAnimating, setIsAnimating] = useState(false);
   const [currentText, setCurrentText] = useState("");
 
-  const processedChunks: ProcessedChunk[] = processTranscriptChunks(transcript, mode);
+  const processedChunks: ProcessedChunk[] = processTranscriptChunks(
+    transcript,
+    mode,
+    grouping
+  );
   
   // Filter out disabled chunks for playback preview
   const enabledChunks = processedChunks.filter((chunk) => {
@@ -103,11 +113,12 @@ export function VideoCaption({
         setIsAnimating(true);
       }, 10);
     }
-  }, [style, currentText]);
+  }, [baseStyle, transcript.speakers, currentText]);
 
   if (currentChunks.length === 0) return null;
 
   const currentChunk = currentChunks[0]; // Take the first matching chunk
+  const style = resolveSpeakerStyle(baseStyle, transcript.speakers, currentChunk.speaker);
   const text = currentChunk.text;
   const currentWordInPhrase = getCurrentWordInPhrase(currentChunk);
 
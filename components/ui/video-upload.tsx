@@ -1,28 +1,45 @@
 "use client";
 
 import { useCallback, useState, forwardRef, useEffect, memo } from "react";
-import { cn } from "@/lib/utils";
+import { cn, formatDurationLimit, type PhraseGroupingOptions } from "@/lib/utils";
+import { isSupportedMediaFile, type SpeechRegion } from "@/lib/audio-utils";
+import { type Speaker } from "@/lib/speakers";
 import { VideoCaption } from "./video-caption";
 import { SubtitleStyle } from "./subtitle-styling";
+import { TimelineEditor } from "./timeline-editor";
 import { UploadIcon } from "lucide-react";
 
+interface TranscriptChunk {
+  text: string;
+  timestamp: [number, number];
+  disabled?: boolean;
+  speaker?: string;
+}
+
 interface VideoUploadProps {
   onVideoSelect: (file: File) => void;
   onTimeUpdate?: (time: number) => void;
   className?: string;
   transcript?: {
     text: string;
-    chunks: Array<{
-      text: string;
-      timestamp: [number, number];
-      disabled?: boolean;
-    }>;
+    chunks: TranscriptChunk[];
+    speakers?: Speaker[];
   } | null;
+  // Timeline editor data; the timeline is read-only without onChunksChange
+  waveform?: Float32Array | null;
+  speechRegions?: SpeechRegion[];
+  onChunksChange?: (chunks: TranscriptChunk[], label: string) => void;
   currentTime?: number;
   subtitleStyle: SubtitleStyle;
   mode: "word" | "phrase";
+  grouping?: PhraseGroupingOptions;
   ratio: "16:9" | "9:16";
   zoomPortrait: boolean;
+  // Longest accepted video in seconds; no limit when omitted
+  maxDuration?: number;
+  // Media shown on mount without going through onVideoSelect, e.g. the
+  // source of a reopened project
+  initialFile?: File | null;
 }
 
 const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
@@ -35,12 +52,19 @@ const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
       currentTime = 0,
       subtitleStyle,
       mode,
+      grouping,
       ratio,
       zoomPortrait,
+      maxDuration,
+      waveform,
+      speechRegions,
+      onChunksChange,
+      initialFile,
     },
     ref
   ) => {
     const [videoSrc, setVideoSrc] = useState<string | null>(null);
+    const [duration, setDuration] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [isSkipping, setIsSkipping] = useState(false);
 
@@ -60,14 +84,22 @@ const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
       setError(null);
     }, []);
 
+    useEffect(() => {
+      if (!initialFile) return;
+
+      const url = URL.createObjectURL(initialFile);
+      setVideoSrc(url);
+      return () => URL.revokeObjectURL(url);
+    }, [initialFile]);
+
     const handleFile = useCallback(
       async (file: File) => {
         try {
-          if (!file.type.startsWith("video/")) {
-            throw new Error("Please select a video file");
+          if (!isSupportedMediaFile(file)) {
+            throw new Error("Please select a video or audio file");
           }
 
-          // Create video element to check duration
+          // Create video element to check duration (it reads audio files too)
           const video = document.createElement("video");
           video.preload = "metadata";
 
@@ -77,20 +109,22 @@ const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
             video.src = URL.createObjectURL(file);
           });
 
-          if (video.duration > 300) {
+          if (maxDuration !== undefined && video.duration > maxDuration) {
             URL.revokeObjectURL(video.src);
-            throw new Error("Video must be less than 5 minutes");
+            throw new Error(
+              `Media must be less than ${formatDurationLimit(maxDuration)}`
+            );
           }
 
           setVideoSrc(video.src);
           setError(null);
           onVideoSelect(file);
         } catch (err) {
-          setError(err instanceof Error ? err.message : "Error loading video");
+          setError(err instanceof Error ? err.message : "Error loading media");
           setVideoSrc(null);
         }
       },
-      [onVideoSelect]
+      [onVideoSelect, maxDuration]
     );
 
     const handleDrop = useCallback(
@@ -176,6 +210,16 @@ const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
       [onTimeUpdate, transcript, isSkipping, getDisabledRanges]
     );
 
+    const handleSeek = useCallback(
+      (time: number) => {
+        if (ref && typeof ref !== "function" && ref.current) {
+          ref.current.currentTime = time;
+          onTimeUpdate?.(time);
+        }
+      },
+      [ref, onTimeUpdate]
+    );
+
     return (
       <div
         className={cn(
@@ -208,6 +252,7 @@ const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
                   aspectRatio: ratio === "16:9" ? "16/9" : "9/16"
                 }}
                 onTimeUpdate={handleTimeUpdate}
+                onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
               />
               {isSkipping && (
                 <div className="absolute top-4 right-4 bg-black bg-opacity-75 text-white px-3 py-1 rounded-md text-sm font-medium">
@@ -221,24 +266,41 @@ const VideoUploadComponent = forwardRef<HTMLVideoElement, VideoUploadProps>(
                 currentTime={currentTime}
                 style={subtitleStyle}
                 mode={mode}
+                grouping={grouping}
                 ratio={ratio}
               />
             )}
+            {transcript && (
+              <TimelineEditor
+                className="w-full p-3"
+                chunks={transcript.chunks}
+                mode={mode}
+                grouping={grouping}
+                duration={duration}
+                currentTime={currentTime}
+                waveform={waveform}
+                speechRegions={speechRegions}
+                onSeek={handleSeek}
+                onChunksChange={onChunksChange}
+              />
+            )}
           </div>
         ) : (
           <div className="flex flex-col items-center justify-center py-10 text-center">
             <input
               type="file"
-              accept="video/*"
+              accept="video/*,audio/*"
               onChange={handleChange}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
             />
             <p className="mb-2">
-              Drag and drop a video file here, or click to select{" "}
+              Drag and drop a video or audio file here, or click to select{" "}
               <UploadIcon className="mx-auto mt-8" />
             </p>
             <p className="text-xs text-muted-foreground">
-              Supports MP4 and WebM formats, max 5 minutes
+              Supports MP4, WebM, MP3, WAV, M4A and OGG
+              {maxDuration !== undefined &&
+                `, max ${formatDurationLimit(maxDuration)}`}
             </p>
           </div>
         )}
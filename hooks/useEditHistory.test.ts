@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { pushHistory, travelHistory, type HistoryStacks } from "./useEditHistory";
+
+const empty: HistoryStacks<string> = { past: [], future: [] };
+
+describe("pushHistory", () => {
+  it("records the state before each edit and clears the redo stack", () => {
+    const stacks = pushHistory(
+      { past: [], future: [{ state: "c", label: "Edit", time: 0 }] },
+      "a",
+      "Edit text",
+      0
+    );
+    expect(stacks.past.map((entry) => entry.state)).toEqual(["a"]);
+    expect(stacks.future).toEqual([]);
+  });
+
+  it("groups quick edits with the same label into one step", () => {
+    let stacks = pushHistory(empty, "a", "Rename speaker", 0);
+    stacks = pushHistory(stacks, "ab", "Rename speaker", 500);
+    stacks = pushHistory(stacks, "abc", "Rename speaker", 1200);
+    expect(stacks.past).toEqual([{ state: "a", label: "Rename speaker", time: 1200 }]);
+  });
+
+  it("keeps a separate step for a different label or after a pause", () => {
+    let stacks = pushHistory(empty, "a", "Edit text", 0);
+    stacks = pushHistory(stacks, "b", "Split cue", 100);
+    stacks = pushHistory(stacks, "c", "Split cue", 5000);
+    expect(stacks.past.map((entry) => entry.state)).toEqual(["a", "b", "c"]);
+  });
+
+  it("drops the oldest entries past the history limit", () => {
+    let stacks = empty;
+    for (let i = 0; i < 250; i++) {
+      stacks = pushHistory(stacks, `${i}`, "Edit text", i * 2000);
+    }
+    expect(stacks.past).toHaveLength(200);
+    expect(stacks.past[0].state).toBe("50");
+  });
+});
+
+describe("travelHistory", () => {
+  const history = (() => {
+    let stacks = pushHistory(empty, "a", "Edit text", 0);
+    stacks = pushHistory(stacks, "b", "Split cue", 2000);
+    return pushHistory(stacks, "c", "Merge cues", 4000);
+  })();
+
+  it("undoes and redoes one step", () => {
+    const undone = travelHistory(history, "d", 1);
+    expect(undone.state).toBe("c");
+    expect(undone.future).toEqual([{ state: "d", label: "Merge cues", time: 4000 }]);
+
+    const redone = travelHistory(undone, undone.state, -1);
+    expect(redone.state).toBe("d");
+    expect(redone.past).toEqual(history.past);
+    expect(redone.future).toEqual([]);
+  });
+
+  it("jumps several steps and stops at the end of the stack", () => {
+    const undone = travelHistory(history, "d", 10);
+    expect(undone.state).toBe("a");
+    expect(undone.past).toEqual([]);
+    expect(undone.future.map((entry) => entry.state)).toEqual(["d", "c", "b"]);
+
+    expect(travelHistory(undone, "a", -2).state).toBe("c");
+  });
+
+  it("leaves the state alone with nothing to undo", () => {
+    expect(travelHistory(empty, "a", 1).state).toBe("a");
+  });
+});
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Edits with the same label that follow each other this quickly (typing a
+// speaker name, dragging a slider) collapse into one undo step
+const GROUP_WINDOW_MS = 1000;
+const MAX_HISTORY_ENTRIES = 200;
+
+export interface HistoryEntry<T> {
+  // State before (undo stack) or after (redo stack) the labelled edit
+  state: T;
+  label: string;
+  time: number;
+}
+
+export interface HistoryStacks<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+/**
+ * Records `current` as the state before an edit labelled `label` made at
+ * `now`, dropping the redo stack.
+ */
+export function pushHistory<T>(
+  { past }: HistoryStacks<T>,
+  current: T,
+  label: string,
+  now: number
+): HistoryStacks<T> {
+  const last = past[past.length - 1];
+  const grouped = last && last.label === label && now - last.time < GROUP_WINDOW_MS;
+
+  return {
+    past: grouped
+      ? [...past.slice(0, -1), { ...last, time: now }]
+      : [...past, { state: current, label, time: now }].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+  };
+}
+
+/**
+ * Moves `steps` entries from the undo stack to the redo stack (negative steps
+ * redo) and returns the stacks with the state to show afterwards.
+ */
+export function travelHistory<T>(
+  stacks: HistoryStacks<T>,
+  current: T,
+  steps: number
+): HistoryStacks<T> & { state: T } {
+  let { past, future } = stacks;
+  let state = current;
+
+  for (let i = 0; i < Math.abs(steps); i++) {
+    const source = steps > 0 ? past : future;
+    const entry = source[source.length - 1];
+    if (!entry) {
+      break;
+    }
+    const reverse = { ...entry, state };
+    state = entry.state;
+    if (steps > 0) {
+      past = past.slice(0, -1);
+      future = [...future, reverse];
+    } else {
+      future = future.slice(0, -1);
+      past = [...past, reverse];
+    }
+  }
+
+  return { past, future, state };
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+/**
+ * Undo/redo stack around a piece of state owned elsewhere. `current` is the
+ * live value and `apply` writes a value back; every change that should be
+ * undoable goes through `commit` instead of calling `apply` directly.
+ * While `paused`, something else is changing the state outside the history,
+ * so undo and redo do nothing: a snapshot would drop those changes.
+ */
+export function useEditHistory<T>(current: T, apply: (state: T) => void, paused = false) {
+  const [stacks, setStacks] = useState<HistoryStacks<T>>({ past: [], future: [] });
+  const stacksRef = useRef(stacks);
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  const updateStacks = useCallback((next: HistoryStacks<T>) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  const commit = useCallback(
+    (next: T, label: string) => {
+      updateStacks(pushHistory(stacksRef.current, currentRef.current, label, Date.now()));
+      apply(next);
+    },
+    [apply, updateStacks]
+  );
+
+  // Applies only the final state when travelling several steps at once
+  const travel = useCallback(
+    (steps: number) => {
+      if (pausedRef.current) {
+        return;
+      }
+      const { past, future, state } = travelHistory(
+        stacksRef.current,
+        currentRef.current,
+        steps
+      );
+      if (state !== currentRef.current) {
+        updateStacks({ past, future });
+        apply(state);
+      }
+    },
+    [apply, updateStacks]
+  );
+
+  const undo = useCallback(() => travel(1), [travel]);
+  const redo = useCallback(() => travel(-1), [travel]);
+
+  const clear = useCallback(() => {
+    updateStacks({ past: [], future: [] });
+  }, [updateStacks]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    past: stacks.past,
+    future: stacks.future,
+    paused,
+    canUndo: !paused && stacks.past.length > 0,
+    canRedo: !paused && stacks.future.length > 0,
+    commit,
+    undo,
+    redo,
+    travel,
+    clear,
+  };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import type { TranscriptionSnapshot } from "@/hooks/useTranscription";
+import { saveProject, type Project, type ProjectSettings } from "@/lib/project-store";
+
+// Quiet period after the last change before the project is written
+const AUTOSAVE_DELAY_MS = 800;
+
+function writeProject(project: Project) {
+  saveProject(project).catch((error) => {
+    console.warn("Could not save the project:", error);
+  });
+}
+
+/**
+ * Writes the open project back to IndexedDB shortly after its transcript or
+ * settings change. Opening or creating a project is not a change, and a save
+ * still pending when the project is closed or the page hides is flushed.
+ */
+export function useProjectAutosave(
+  project: Project | null,
+  // Null while nothing should be saved, e.g. during a transcription run
+  transcription: TranscriptionSnapshot | null,
+  settings: ProjectSettings
+) {
+  // What the stored record currently holds, compared by identity
+  const savedRef = useRef<{
+    id: string;
+    transcription: TranscriptionSnapshot;
+    settings: ProjectSettings;
+  } | null>(null);
+  const pendingRef = useRef<Project | null>(null);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    if (pending && pending.id !== project?.id) {
+      pendingRef.current = null;
+      writeProject(pending);
+    }
+    if (!project || !transcription) {
+      return;
+    }
+
+    const saved = savedRef.current;
+    if (saved?.id !== project.id) {
+      savedRef.current = { id: project.id, transcription, settings };
+      return;
+    }
+    if (saved.transcription === transcription && saved.settings === settings) {
+      return;
+    }
+
+    pendingRef.current = { ...project, transcription, settings, updatedAt: Date.now() };
+    const timeoutId = setTimeout(() => {
+      savedRef.current = { id: project.id, transcription, settings };
+      if (pendingRef.current) {
+        writeProject(pendingRef.current);
+        pendingRef.current = null;
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [project, transcription, settings]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (pendingRef.current) {
+        writeProject(pendingRef.current);
+        pendingRef.current = null;
+      }
+    };
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, []);
+}
@@ -1,8 +1,26 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { extractAudioFromVideo } from "@/lib/audio-utils";
+import {
+  decodeAudioWindows,
+  DEFAULT_AUDIO_SELECTION,
+  getMediaDuration,
+  type AudioSelection,
+  type SpeechRegion,
+} from "@/lib/audio-utils";
+import {
+  type TranscriptionLanguage,
+  type TranscriptionTask,
+} from "@/lib/languages";
+import { DEFAULT_MODEL, getModelKey, type ModelSelection } from "@/lib/models";
+import { mergeSpeakers, type Speaker } from "@/lib/speakers";
+import { applyGlossary, buildGlossaryPrompt, type GlossaryEntry } from "@/lib/glossary";
+import { type PhraseBreak } from "@/lib/transcript-editing";
 
 type DeviceType = "webgpu" | "wasm";
 
+// Windows posted to the worker but not transcribed yet. Decoding runs ahead of
+// the model by at most this much, which bounds the audio held in memory.
+const MAX_QUEUED_WINDOWS = 2;
+
 export type TranscriptionStatus =
   | "idle"
   | "loading"
@@ -17,7 +35,42 @@ export interface TranscriptionResult {
   chunks: Array<{
     text: string;
     timestamp: [number, number];
+    // Id of an entry in `speakers`, set when diarization ran
+    speaker?: string;
+    disabled?: boolean;
+    // Manual phrase boundary from splitting or merging cues
+    phraseBreak?: PhraseBreak;
+    // Decoder probability of the word, dropped once the user retypes it
+    probability?: number;
   }>;
+  speakers?: Speaker[];
+  // Whisper language code, either the one requested or the detected one
+  language?: string;
+  // "translate" means the chunks are an English translation of `language`
+  task?: TranscriptionTask;
+}
+
+/**
+ * Everything a finished run leaves behind, enough to reopen it later without
+ * transcribing again.
+ */
+export interface TranscriptionSnapshot {
+  result: TranscriptionResult;
+  speechRegions: SpeechRegion[];
+  mediaDuration: number;
+  waveform: Float32Array | null;
+}
+
+interface UseTranscriptionOptions {
+  language?: TranscriptionLanguage;
+  task?: TranscriptionTask;
+  model?: ModelSelection;
+  // Run voice activity detection and only transcribe speech
+  skipSilence?: boolean;
+  // Tag every chunk with the speaker who said it
+  diarize?: boolean;
+  // Terms that prime the model and correct the finished transcript
+  glossary?: GlossaryEntry[];
 }
 
 export const STATUS_MESSAGES: Record<TranscriptionStatus, string> = {
@@ -43,11 +96,24 @@ async function detectPreferredDevice(): Promise<DeviceType> {
   }
 }
 
-export function useTranscription() {
+export function useTranscription({
+  language = "en",
+  task = "transcribe",
+  model = DEFAULT_MODEL,
+  skipSilence = true,
+  diarize = false,
+  glossary = [],
+}: UseTranscriptionOptions = {}) {
   const [status, setStatusState] = useState<TranscriptionStatus>("idle");
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<TranscriptionResult | null>(null);
   const [progress, setProgress] = useState(0);
+  // Speech found by the VAD pre-pass, on the original timeline; empty when
+  // silence skipping is off
+  const [speechRegions, setSpeechRegions] = useState<SpeechRegion[]>([]);
+  const [mediaDuration, setMediaDuration] = useState(0);
+  // Levels of the selected audio at WAVEFORM_BINS_PER_SECOND, for the timeline
+  const [waveform, setWaveform] = useState<Float32Array | null>(null);
   const [device, setDevice] = useState<DeviceType>("wasm");
   const worker = useRef<Worker | null>(null);
   const deviceRef = useRef<DeviceType>("wasm");
@@ -56,6 +122,16 @@ export function useTranscription() {
   const modelLoadResolveRef = useRef<(() => void) | null>(null);
   const modelLoadRejectRef = useRef<((error: Error) => void) | null>(null);
   const statusRef = useRef<TranscriptionStatus>("idle");
+  // Incremented for every run; worker messages tagged with an older id belong
+  // to a cancelled run and are dropped
+  const runIdRef = useRef(0);
+  const runInFlightRef = useRef(false);
+  const queuedWindowsRef = useRef(0);
+  const windowDrainedRef = useRef<(() => void) | null>(null);
+  const modelKey = getModelKey(model);
+  // Read when a run completes, without re-subscribing the message handler
+  const glossaryRef = useRef(glossary);
+  glossaryRef.current = glossary;
 
   const updateStatus = useCallback((nextStatus: TranscriptionStatus) => {
     statusRef.current = nextStatus;
@@ -78,7 +154,27 @@ export function useTranscription() {
     };
   }, []);
 
+  // Stops listening to the current run and, if the worker is already
+  // transcribing it, asks the worker to abort between windows
+  const abandonActiveRun = useCallback(() => {
+    if (runInFlightRef.current && worker.current) {
+      worker.current.postMessage({
+        type: "cancel",
+        data: { runId: runIdRef.current },
+      });
+    }
+    runInFlightRef.current = false;
+    runIdRef.current += 1;
+    // Let a decode loop blocked on backpressure notice the cancellation
+    windowDrainedRef.current?.();
+    windowDrainedRef.current = null;
+  }, []);
+
   const workerMessageHandler = useCallback((e: MessageEvent) => {
+    if (e.data.runId !== undefined && e.data.runId !== runIdRef.current) {
+      return;
+    }
+
     switch (e.data.status) {
       case "loading":
         updateStatus("loading");
@@ -99,13 +195,67 @@ export function useTranscription() {
         modelLoadRejectRef.current = null;
         break;
 
+      case "partial": {
+        queuedWindowsRef.current = Math.max(0, queuedWindowsRef.current - 1);
+        windowDrainedRef.current?.();
+        windowDrainedRef.current = null;
+
+        const { chunks, language, task, processedSeconds, totalSeconds } = e.data;
+        setResult((prev) => {
+          const mergedChunks = [...(prev?.chunks ?? []), ...chunks];
+          const speakerIds = chunks.flatMap(
+            ({ speaker }: { speaker?: string }) => (speaker ? [speaker] : [])
+          );
+          const speakers =
+            speakerIds.length > 0 || prev?.speakers
+              ? mergeSpeakers(prev?.speakers ?? [], speakerIds)
+              : undefined;
+          return {
+            text: mergedChunks.map((chunk) => chunk.text).join("").trim(),
+            chunks: mergedChunks,
+            ...(speakers && { speakers }),
+            language,
+            task,
+          };
+        });
+        if (totalSeconds > 0) {
+          setProgress(
+            Math.min(99, Math.round((processedSeconds / totalSeconds) * 100))
+          );
+        }
+        break;
+      }
+
       case "complete":
-        setResult(e.data.result);
+        // Partial windows already delivered every chunk (and the user may
+        // have edited them meanwhile), so only fall back to the final payload
+        // when nothing was streamed
+        setResult((prev) => {
+          const completed: TranscriptionResult = prev
+            ? { ...prev, language: e.data.result.language, task: e.data.result.task }
+            : e.data.result;
+          const chunks = applyGlossary(completed.chunks, glossaryRef.current);
+          return {
+            ...completed,
+            text: chunks.map((chunk) => chunk.text).join("").trim(),
+            chunks,
+          };
+        });
         updateStatus("ready");
         setProgress(100);
+        runInFlightRef.current = false;
+        break;
+
+      case "cancelled":
+        runInFlightRef.current = false;
         break;
 
       case "error":
+        if (runInFlightRef.current) {
+          // The worker dropped the run; release a decode loop waiting on it
+          runInFlightRef.current = false;
+          abandonActiveRun();
+        }
         setError(e.data.data);
         updateStatus("idle");
         setProgress(0);
@@ -128,7 +278,7 @@ export function useTranscription() {
         }
         break;
     }
-  }, [updateStatus]);
+  }, [abandonActiveRun, updateStatus]);
 
   const initializeWorker = useCallback(() => {
     if (worker.current || typeof window === "undefined") {
@@ -155,7 +305,10 @@ export function useTranscription() {
     };
   }, [initializeWorker, workerMessageHandler]);
 
-  const ensureModelLoaded = useCallback(async () => {
+  const ensureModelLoaded = useCallback(async (
+    warmUpLanguage: TranscriptionLanguage,
+    selectedModel: ModelSelection
+  ) => {
     initializeWorker();
 
     if (modelReadyRef.current) {
@@ -174,24 +327,40 @@ export function useTranscription() {
 
       worker.current.postMessage({
         type: "load",
-        data: { device: deviceRef.current },
+        data: {
+          device: deviceRef.current,
+          language: warmUpLanguage,
+          model: selectedModel,
+        },
       });
     }
 
     await modelLoadingPromiseRef.current;
   }, [initializeWorker]);
 
-  // Initialize worker
+  // Initialize worker, and force a reload through the worker's reset logic
+  // whenever a different model is selected
   useEffect(() => {
     modelReadyRef.current = false;
-  }, []);
+  }, [modelKey]);
+
+  const handleVideoSelect = async (
+    file: File,
+    audio: AudioSelection = DEFAULT_AUDIO_SELECTION
+  ) => {
+    // A run still in progress would keep the worker busy with its windows
+    abandonActiveRun();
+    const runId = ++runIdRef.current;
+    const isCancelled = () => runIdRef.current !== runId;
 
-  const handleVideoSelect = async (file: File) => {
     try {
       // Reset states
       setError(null);
       setResult(null);
       setProgress(0);
+      setSpeechRegions([]);
+      setMediaDuration(0);
+      setWaveform(null);
 
       console.log(
         "Processing video:",
@@ -209,34 +378,87 @@ export function useTranscription() {
         updateStatus("loading");
       }
 
-      await ensureModelLoaded();
-
-      updateStatus("extracting");
-      setProgress(30);
-      const audioData = await extractAudioFromVideo(file);
+      await ensureModelLoaded(language, model);
+      if (isCancelled()) return;
 
       if (!worker.current) {
         throw new Error("Worker not initialized properly");
       }
 
-      updateStatus("transcribing");
-      setProgress(60);
+      updateStatus("extracting");
+      setProgress(30);
+      const totalSeconds = await getMediaDuration(file);
+      if (isCancelled() || !worker.current) return;
+      setMediaDuration(totalSeconds);
+
+      queuedWindowsRef.current = 0;
+      runInFlightRef.current = true;
       worker.current.postMessage({
         type: "run",
         data: {
-          audio: audioData,
-          language: "en",
+          runId,
+          totalSeconds,
+          language,
+          task,
           device: deviceRef.current,
+          diarize,
+          prompt: buildGlossaryPrompt(glossary),
         },
       });
+
+      let windowCount = 0;
+      const audioWindows = decodeAudioWindows(file, {
+        audio,
+        skipSilence,
+        onSpeechRegions: (regions) => {
+          if (!isCancelled()) setSpeechRegions(regions);
+        },
+        onWaveform: (levels) => {
+          if (!isCancelled()) setWaveform(levels);
+        },
+      });
+      for await (const audioWindow of audioWindows) {
+        while (queuedWindowsRef.current >= MAX_QUEUED_WINDOWS && !isCancelled()) {
+          await new Promise<void>((resolve) => {
+            windowDrainedRef.current = resolve;
+          });
+        }
+        if (isCancelled() || !worker.current) return;
+
+        queuedWindowsRef.current += 1;
+        worker.current.postMessage(
+          { type: "window", data: { runId, ...audioWindow } },
+          [audioWindow.audio.buffer]
+        );
+
+        windowCount += 1;
+        if (windowCount === 1) {
+          updateStatus("transcribing");
+          setProgress(0);
+        }
+      }
+
+      if (windowCount === 0) {
+        throw new Error("No audio could be decoded from this file");
+      }
     } catch (err) {
+      if (isCancelled()) return;
       console.error("Error in handleVideoSelect:", err);
       if (err instanceof Error) {
         console.error("Error stack:", err.stack);
       }
       setError(err instanceof Error ? err.message : String(err));
-      updateStatus("idle");
       setProgress(0);
+
+      if (runInFlightRef.current) {
+        // Decoding failed after the worker started the run; the model is
+        // fine, so release the run instead of tearing the worker down
+        abandonActiveRun();
+        updateStatus("ready");
+        return;
+      }
+
+      updateStatus("idle");
       modelReadyRef.current = false;
       modelLoadingPromiseRef.current = null;
       modelLoadResolveRef.current = null;
@@ -251,9 +473,14 @@ export function useTranscription() {
   };
 
   const resetTranscription = () => {
+    abandonActiveRun();
+
     // Reset states
     setError(null);
     setResult(null);
+    setSpeechRegions([]);
+    setMediaDuration(0);
+    setWaveform(null);
     updateStatus(modelReadyRef.current ? "ready" : "idle");
     setProgress(0);
 
@@ -262,11 +489,35 @@ export function useTranscription() {
     }
   };
 
+  const restoreTranscription = (snapshot: TranscriptionSnapshot) => {
+    abandonActiveRun();
+
+    setError(null);
+    setResult(snapshot.result);
+    setSpeechRegions(snapshot.speechRegions);
+    setMediaDuration(snapshot.mediaDuration);
+    setWaveform(snapshot.waveform);
+    updateStatus(modelReadyRef.current ? "ready" : "idle");
+    setProgress(0);
+  };
+
   const cancelTranscription = useCallback(() => {
+    abandonActiveRun();
     setError(null);
     setResult(null);
-    updateStatus("idle");
+    setSpeechRegions([]);
+    setWaveform(null);
     setProgress(0);
+
+    if (modelReadyRef.current) {
+      // The model stays loaded in the worker, so the next video can start
+      // transcribing immediately
+      updateStatus("ready");
+      return;
+    }
+
+    // Still loading the model: the only way to stop that is a fresh worker
+    updateStatus("idle");
     modelReadyRef.current = false;
     modelLoadingPromiseRef.current = null;
     modelLoadResolveRef.current = null;
@@ -279,18 +530,22 @@ export function useTranscription() {
     }
 
     initializeWorker();
-  }, [initializeWorker, updateStatus, workerMessageHandler]);
+  }, [abandonActiveRun, initializeWorker, updateStatus, workerMessageHandler]);
 
   return {
     status,
     error,
     result,
     progress,
+    speechRegions,
+    mediaDuration,
+    waveform,
     setResult,
     setStatus: updateStatus,
     setProgress,
     handleVideoSelect,
     resetTranscription,
+    restoreTranscription,
     cancelTranscription,
   };
 }
@@ -4,12 +4,18 @@ import {
   Output,
   CanvasSource,
   AudioBufferSource,
+  AudioBufferSink,
   Mp4OutputFormat,
   WebMOutputFormat,
   BufferTarget,
   BlobSource,
   VideoSampleSink,
   VideoSample,
+  EncodedPacketSink,
+  EncodedVideoPacketSource,
+  EncodedAudioPacketSource,
+  TextSubtitleSource,
+  MkvOutputFormat,
   ALL_FORMATS,
   QUALITY_HIGH,
   QUALITY_MEDIUM,
@@ -17,13 +23,34 @@ import {
   QUALITY_VERY_HIGH
 } from 'mediabunny';
 import { SubtitleStyle } from '@/components/ui/subtitle-styling';
-import { processTranscriptChunks } from '@/lib/utils';
+import {
+  AUDIOGRAM_SIZES,
+  DEFAULT_AUDIOGRAM_STYLE,
+  type AudiogramStyle,
+} from '@/components/ui/audiogram-settings';
+import {
+  DEFAULT_PHRASE_GROUPING,
+  getExportCues,
+  transcriptToVtt,
+  type PhraseGroupingOptions,
+} from '@/lib/utils';
+import { getTranscriptLabel, type TranscriptionTask } from '@/lib/languages';
+import { resolveSpeakerStyle, type Speaker } from '@/lib/speakers';
+import {
+  DEFAULT_AUDIO_SELECTION,
+  WAVEFORM_BINS_PER_SECOND,
+  WaveformBuilder,
+  getSelectedAudioTrack,
+  remixAudioBuffer,
+  type AudioSelection,
+} from '@/lib/audio-utils';
 
 // Types
 interface TranscriptChunk {
   text: string;
   timestamp: [number, number];
   disabled?: boolean;
+  speaker?: string;
   words?: WordTiming[];
 }
 
@@ -31,10 +58,20 @@ interface UseVideoDownloadMediaBunnyProps {
   video: HTMLVideoElement | null;
   transcriptChunks: TranscriptChunk[];
   subtitleStyle: SubtitleStyle;
+  // Per-speaker overrides applied on top of `subtitleStyle`
+  speakers?: Speaker[];
   mode: 'word' | 'phrase';
+  grouping?: PhraseGroupingOptions;
   format?: 'mp4' | 'webm';
   quality?: 'low' | 'medium' | 'high' | 'very_high';
   fps?: number;
+  // Track and channel choice used for transcription, applied to the export
+  audioSelection?: AudioSelection;
+  // Background and waveform used when the source has no video track
+  audiogram?: AudiogramStyle;
+  // Names the subtitle track of a soft subtitle export
+  language?: string;
+  task?: TranscriptionTask;
 }
 
 // Quality mapping
@@ -50,20 +87,20 @@ interface WordTiming {
   timestamp: [number, number];
 }
 
-type ProcessedChunk = ReturnType<typeof processTranscriptChunks>[number];
-
-function isPhraseChunk(chunk: ProcessedChunk): chunk is ProcessedChunk & { words: WordTiming[] } {
-  return Array.isArray((chunk as { words?: WordTiming[] }).words);
-}
-
 export function useVideoDownloadMediaBunny({
   video,
   transcriptChunks,
   subtitleStyle,
+  speakers,
   mode,
+  grouping = DEFAULT_PHRASE_GROUPING,
   format = 'mp4',
   quality = 'high',
-  fps = 30
+  fps = 30,
+  audioSelection = DEFAULT_AUDIO_SELECTION,
+  audiogram = DEFAULT_AUDIOGRAM_STYLE,
+  language,
+  task,
 }: UseVideoDownloadMediaBunnyProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -90,10 +127,16 @@ export function useVideoDownloadMediaBunny({
     let cancelled = false;
 
     try {
+      // Audio files have no frames to draw, so they render as an audiogram
+      const isAudiogram = video.videoWidth === 0;
+
       // Create canvas matching video dimensions
       const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+      const canvasSize = isAudiogram
+        ? AUDIOGRAM_SIZES[audiogram.layout]
+        : { width: video.videoWidth, height: video.videoHeight };
+      canvas.width = canvasSize.width;
+      canvas.height = canvasSize.height;
       const ctx = canvas.getContext('2d');
 
       if (!ctx) {
@@ -113,7 +156,7 @@ export function useVideoDownloadMediaBunny({
       // Get video metadata
       const duration = await input.computeDuration();
       const originalVideoTrack = await input.getPrimaryVideoTrack();
-      const originalAudioTrack = await input.getPrimaryAudioTrack();
+      const originalAudioTrack = await getSelectedAudioTrack(input, audioSelection.trackId);
 
       console.log(`Video duration: ${duration}s`);
 
@@ -132,15 +175,18 @@ export function useVideoDownloadMediaBunny({
       output.addVideoTrack(videoSource, { frameRate: fps });
       cancelContextRef.current.videoSource = videoSource;
 
+      const backgroundImage =
+        isAudiogram && audiogram.backgroundImage
+          ? await loadImage(audiogram.backgroundImage)
+          : null;
+      const waveform = isAudiogram ? new WaveformBuilder() : null;
+
       // Handle audio if present
       let audioSource: AudioBufferSource | null = null;
       if (originalAudioTrack) {
         setStatus('Processing audio...');
+        let outputStarted = false;
         try {
-          const arrayBuffer = await videoBlob.arrayBuffer();
-          const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
-
           audioSource = new AudioBufferSource({
             codec: format === 'webm' ? 'opus' : 'aac',
             bitrate: qualityMap[quality],
@@ -149,38 +195,47 @@ export function useVideoDownloadMediaBunny({
 
           // Start output and add audio
           await output.start();
-          await audioSource.add(audioBuffer);
+          outputStarted = true;
+
+          if (await originalAudioTrack.canDecode()) {
+            // Stream the selected track so long videos are never decoded into
+            // one giant AudioBuffer
+            for await (const { buffer } of new AudioBufferSink(originalAudioTrack).buffers()) {
+              const remixed = remixAudioBuffer(buffer, audioSelection.channels);
+              waveform?.add(remixed);
+              await audioSource.add(remixed);
+            }
+          } else {
+            // decodeAudioData can only read the default track
+            const arrayBuffer = await videoBlob.arrayBuffer();
+            const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
+            const remixed = remixAudioBuffer(audioBuffer, audioSelection.channels);
+            waveform?.add(remixed);
+            await audioSource.add(remixed);
+            await audioContext.close();
+          }
           audioSource.close();
-          await audioContext.close();
         } catch (error) {
           console.warn('Audio processing failed:', error);
-          await output.start();
+          if (!outputStarted) {
+            await output.start();
+          }
         }
       } else {
         await output.start();
       }
 
+      const waveformLevels = waveform?.finish() ?? null;
+
       // Setup video sample sink for precise frame extraction
       let videoSampleSink: VideoSampleSink | null = null;
-      if (originalVideoTrack && (await originalVideoTrack.canDecode())) {
+      if (!isAudiogram && originalVideoTrack && (await originalVideoTrack.canDecode())) {
         videoSampleSink = new VideoSampleSink(originalVideoTrack);
       }
 
-      // Process chunks according to mode (word/phrase) and filter enabled ones
-      const processedChunks = processTranscriptChunks({ chunks: transcriptChunks }, mode);
-      const enabledChunks = processedChunks.filter((chunk) => {
-        if (mode === 'phrase' && isPhraseChunk(chunk)) {
-          return !chunk.words.some((word) => {
-            const originalChunk = transcriptChunks.find(
-              (candidate) =>
-                candidate.timestamp[0] === word.timestamp[0] &&
-                candidate.timestamp[1] === word.timestamp[1]
-            );
-            return originalChunk?.disabled;
-          });
-        }
-        return !chunk.disabled;
-      });
+      // The same cues as the subtitle file exports, so disabled ones stay out
+      const enabledChunks = getExportCues({ chunks: transcriptChunks }, mode, grouping);
 
       const totalFrames = Math.ceil(duration * fps);
       setStatus('Rendering video frames...');
@@ -216,6 +271,10 @@ export function useVideoDownloadMediaBunny({
         // Clear canvas
         ctx.clearRect(0, 0, canvas.width, canvas.height);
 
+        if (waveformLevels) {
+          renderAudiogramFrame(ctx, canvas, audiogram, backgroundImage, waveformLevels, time);
+        }
+
         // Draw video frame using iterator to avoid repeated decoder setup
         if (videoSampleSink && sampleIterator) {
           try {
@@ -237,7 +296,8 @@ export function useVideoDownloadMediaBunny({
         });
 
         if (currentChunk) {
-          renderSubtitle(ctx, currentChunk, subtitleStyle, canvas, mode, time);
+          const chunkStyle = resolveSpeakerStyle(subtitleStyle, speakers, currentChunk.speaker);
+          renderSubtitle(ctx, currentChunk, chunkStyle, canvas, mode, time);
         }
 
         if (cancelContextRef.current.cancelRequested) {
@@ -317,7 +377,161 @@ export function useVideoDownloadMediaBunny({
       }
       cancelContextRef.current.cancelRequested = false;
     }
-  }, [video, transcriptChunks, subtitleStyle, mode, format, quality, fps]);
+  }, [video, transcriptChunks, subtitleStyle, speakers, mode, grouping, format, quality, fps, audioSelection, audiogram]);
+
+  /**
+   * Copies the original video and audio packets without re-encoding and adds
+   * the transcript as a WebVTT subtitle track viewers can switch on and off.
+   * The file is always WebM or MKV: MP4 players expect mov_text (tx3g), which
+   * mediabunny cannot write, and mostly ignore its WebVTT-in-MP4 (`wvtt`)
+   * tracks. The audio track is copied as is, without the channel remix.
+   */
+  const downloadWithSubtitleTrack = useCallback(async () => {
+    if (!video?.src || transcriptChunks.length === 0) {
+      console.error('Missing video or transcript data');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(0);
+    setStatus('Reading original video...');
+    cancelContextRef.current.cancelRequested = false;
+    cancelContextRef.current.output = null;
+    cancelContextRef.current.videoSource = null;
+
+    let cancelled = false;
+
+    try {
+      const videoBlob = await fetch(video.src).then(r => r.blob());
+      const input = new Input({
+        source: new BlobSource(videoBlob),
+        formats: ALL_FORMATS,
+      });
+
+      const duration = await input.computeDuration();
+      const originalVideoTrack = await input.getPrimaryVideoTrack();
+      const originalAudioTrack = await getSelectedAudioTrack(input, audioSelection.trackId);
+      const videoCodec = originalVideoTrack?.codec;
+      const audioCodec = originalAudioTrack?.codec;
+      if (!originalVideoTrack || !videoCodec) {
+        throw new Error('A subtitle track needs a video to go with; use the burned-in export');
+      }
+
+      // WebM where its codecs allow, MKV for everything else (H.264, AAC, ...)
+      const candidates = [new WebMOutputFormat(), new MkvOutputFormat()];
+      const outputFormat = candidates.find(
+        (candidate) =>
+          candidate.getSupportedVideoCodecs().includes(videoCodec) &&
+          (!audioCodec || candidate.getSupportedAudioCodecs().includes(audioCodec))
+      );
+      if (!outputFormat) {
+        throw new Error(
+          `${videoCodec} video cannot be copied next to a subtitle track; use the burned-in export`
+        );
+      }
+
+      const output = new Output({
+        format: outputFormat,
+        target: new BufferTarget(),
+      });
+      cancelContextRef.current.output = output;
+
+      const videoSource = new EncodedVideoPacketSource(videoCodec);
+      output.addVideoTrack(videoSource, { rotation: originalVideoTrack.rotation });
+      const audioSource = audioCodec ? new EncodedAudioPacketSource(audioCodec) : null;
+      if (audioSource) {
+        output.addAudioTrack(audioSource);
+      }
+      const subtitleSource = new TextSubtitleSource('webvtt');
+      output.addSubtitleTrack(subtitleSource, {
+        name: getTranscriptLabel({ language, task }),
+        disposition: { default: true },
+      });
+      await output.start();
+
+      const vtt = transcriptToVtt(
+        { chunks: transcriptChunks, speakers, language, task },
+        mode,
+        grouping
+      );
+
+      setStatus('Copying video and audio...');
+      // Tracks are fed side by side so the muxer can interleave them
+      await Promise.all([
+        (async () => {
+          let decoderConfig = (await originalVideoTrack.getDecoderConfig()) ?? undefined;
+          for await (const packet of new EncodedPacketSink(originalVideoTrack).packets()) {
+            if (cancelContextRef.current.cancelRequested) {
+              cancelled = true;
+              return;
+            }
+            // The decoder config only goes with the first packet
+            await videoSource.add(packet, decoderConfig && { decoderConfig });
+            decoderConfig = undefined;
+            if (duration > 0) {
+              setProgress(Math.min(100, (packet.timestamp / duration) * 100));
+            }
+          }
+          videoSource.close();
+        })(),
+        (async () => {
+          if (!originalAudioTrack || !audioSource) {
+            return;
+          }
+          let decoderConfig = (await originalAudioTrack.getDecoderConfig()) ?? undefined;
+          for await (const packet of new EncodedPacketSink(originalAudioTrack).packets()) {
+            if (cancelContextRef.current.cancelRequested) {
+              cancelled = true;
+              return;
+            }
+            await audioSource.add(packet, decoderConfig && { decoderConfig });
+            decoderConfig = undefined;
+          }
+          audioSource.close();
+        })(),
+        (async () => {
+          await subtitleSource.add(vtt);
+          subtitleSource.close();
+        })(),
+      ]);
+
+      if (cancelled) {
+        await output.cancel();
+        setProgress(0);
+        setStatus('Download cancelled');
+      } else {
+        setStatus('Finalizing video...');
+        await output.finalize();
+
+        const buffer = (output.target as BufferTarget).buffer;
+        if (!buffer) {
+          throw new Error('Failed to generate video buffer');
+        }
+
+        const blob = new Blob([buffer], { type: outputFormat.mimeType });
+        const url = URL.createObjectURL(blob);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `video_with_subtitle_track_${new Date().toISOString().replace(/[:.]/g, '-')}${outputFormat.fileExtension}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        setStatus('Export complete!');
+        setProgress(100);
+      }
+    } catch (error) {
+      console.error('Subtitle track export failed:', error);
+      setStatus(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      cancelContextRef.current.output = null;
+      setIsProcessing(false);
+      setTimeout(() => setProgress(0), cancelled ? 500 : 3000);
+      cancelContextRef.current.cancelRequested = false;
+    }
+  }, [video, transcriptChunks, speakers, mode, grouping, audioSelection, language, task]);
 
   const cancelDownload = useCallback(() => {
     if (!isProcessing) {
@@ -339,6 +553,7 @@ export function useVideoDownloadMediaBunny({
 
   return {
     downloadVideo,
+    downloadWithSubtitleTrack,
     cancelDownload,
     isProcessing,
     progress,
@@ -347,6 +562,73 @@ export function useVideoDownloadMediaBunny({
 }
 
 // Subtitle rendering function
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load audiogram background image'));
+    image.src = src;
+  });
+}
+
+// Seconds of waveform visible on either side of the playhead
+const AUDIOGRAM_WINDOW_SECONDS = 3;
+
+/**
+ * Draws an audiogram frame: background color, optional cover-fitted image and
+ * a scrolling waveform centered on the current time. Bars already played are
+ * drawn solid, upcoming ones faded.
+ */
+function renderAudiogramFrame(
+  ctx: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  style: AudiogramStyle,
+  backgroundImage: HTMLImageElement | null,
+  levels: Float32Array,
+  time: number
+) {
+  ctx.fillStyle = style.backgroundColor;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (backgroundImage) {
+    const scale = Math.max(
+      canvas.width / backgroundImage.width,
+      canvas.height / backgroundImage.height
+    );
+    const width = backgroundImage.width * scale;
+    const height = backgroundImage.height * scale;
+    ctx.drawImage(
+      backgroundImage,
+      (canvas.width - width) / 2,
+      (canvas.height - height) / 2,
+      width,
+      height
+    );
+  }
+
+  const visibleBins = AUDIOGRAM_WINDOW_SECONDS * 2 * WAVEFORM_BINS_PER_SECOND;
+  const barWidth = canvas.width / visibleBins;
+  const centerBin = time * WAVEFORM_BINS_PER_SECOND;
+  const firstBin = Math.floor(centerBin - visibleBins / 2);
+  // Keep the waveform above the subtitles, which sit in the lower part
+  const centerY = canvas.height * 0.4;
+  const maxBarHeight = canvas.height * 0.25;
+
+  ctx.fillStyle = style.waveformColor;
+  for (let i = 0; i <= visibleBins; i++) {
+    const bin = firstBin + i;
+    if (bin < 0 || bin >= levels.length) {
+      continue;
+    }
+
+    const barHeight = Math.max(2, levels[bin] * maxBarHeight);
+    const x = (bin - centerBin + visibleBins / 2) * barWidth;
+    ctx.globalAlpha = bin <= centerBin ? 1 : 0.4;
+    ctx.fillRect(x, centerY - barHeight / 2, Math.max(1, barWidth * 0.7), barHeight);
+  }
+  ctx.globalAlpha = 1;
+}
+
 function renderSubtitle(
   ctx: CanvasRenderingContext2D,
   chunk: TranscriptChunk,
@@ -1,11 +1,734 @@
+import {
+  ALL_FORMATS,
+  AudioBufferSink,
+  BlobSource,
+  Input,
+  type InputAudioTrack,
+} from "mediabunny";
+
 declare global {
   interface Window {
     webkitAudioContext?: typeof AudioContext;
   }
 }
 
+// Whisper expects 16 kHz mono input
+export const WHISPER_SAMPLING_RATE = 16_000;
+
+export interface AudioWindow {
+  // Sample range fed to the model
+  start: number;
+  end: number;
+  // Sample range this window is responsible for; words whose midpoint falls
+  // outside it belong to the neighbouring window
+  ownedStart: number;
+  ownedEnd: number;
+}
+
+// Extensions accepted when the browser reports no MIME type for a file
+const AUDIO_FILE_EXTENSIONS = [".mp3", ".wav", ".m4a", ".aac", ".ogg", ".oga", ".opus", ".flac"];
+
+export function isAudioFile(file: File): boolean {
+  if (file.type) {
+    return file.type.startsWith("audio/");
+  }
+  const name = file.name.toLowerCase();
+  return AUDIO_FILE_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+export function isSupportedMediaFile(file: File): boolean {
+  return file.type.startsWith("video/") || isAudioFile(file);
+}
+
+// Resolution of the audiogram and timeline waveforms
+export const WAVEFORM_BINS_PER_SECOND = 50;
+
+/**
+ * Collects RMS levels of streamed audio in fixed time bins, for drawing a
+ * waveform without keeping the audio itself.
+ */
+export class WaveformBuilder {
+  private levels: number[] = [];
+  private energy = 0;
+  private samples = 0;
+
+  add(buffer: AudioBuffer): void {
+    this.addChannels(
+      Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+        buffer.getChannelData(channel)
+      ),
+      buffer.sampleRate
+    );
+  }
+
+  addChannels(channels: Float32Array[], sampleRate: number): void {
+    const binSamples = Math.round(sampleRate / WAVEFORM_BINS_PER_SECOND);
+    const length = channels[0]?.length ?? 0;
+
+    for (let i = 0; i < length; i++) {
+      for (const data of channels) {
+        this.energy += (data[i] * data[i]) / channels.length;
+      }
+      this.samples += 1;
+
+      if (this.samples === binSamples) {
+        this.levels.push(Math.sqrt(this.energy / this.samples));
+        this.energy = 0;
+        this.samples = 0;
+      }
+    }
+  }
+
+  // Levels so far, scaled so the loudest bin is 1. Adding more audio
+  // afterwards continues where this left off.
+  finish(): Float32Array {
+    const levels =
+      this.samples > 0
+        ? [...this.levels, Math.sqrt(this.energy / this.samples)]
+        : this.levels;
+    const peak = levels.reduce((max, level) => Math.max(max, level), 0);
+    return Float32Array.from(levels, (level) => (peak > 0 ? level / peak : 0));
+  }
+}
+
+/**
+ * How the channels of the chosen track are combined: the default downmix,
+ * one channel on its own (e.g. a mic recorded to the left channel), or
+ * explicit per-channel gains.
+ */
+export type ChannelMix =
+  | { mode: "mixdown" }
+  | { mode: "channel"; channel: number }
+  | { mode: "custom"; gains: number[] };
+
+export interface AudioSelection {
+  // mediabunny track id; the primary audio track when omitted
+  trackId?: number;
+  channels: ChannelMix;
+}
+
+export const DEFAULT_AUDIO_SELECTION: AudioSelection = {
+  channels: { mode: "mixdown" },
+};
+
+export interface AudioTrackInfo {
+  id: number;
+  label: string;
+  channels: number;
+  sampleRate: number;
+  isDefault: boolean;
+}
+
+// Channel order of decoded Web Audio / WebCodecs buffers for common layouts
+const CHANNEL_LAYOUT_LABELS: Record<number, string[]> = {
+  1: ["Mono"],
+  2: ["Left", "Right"],
+  4: ["Front left", "Front right", "Surround left", "Surround right"],
+  6: ["Front left", "Front right", "Center", "LFE", "Surround left", "Surround right"],
+  8: [
+    "Front left",
+    "Front right",
+    "Center",
+    "LFE",
+    "Surround left",
+    "Surround right",
+    "Side left",
+    "Side right",
+  ],
+};
+
+export function getChannelLabel(channel: number, channelCount: number): string {
+  return CHANNEL_LAYOUT_LABELS[channelCount]?.[channel] ?? `Channel ${channel + 1}`;
+}
+
+/**
+ * Per-channel gains for a mix. The default downmix keeps the old stereo
+ * scaling, favours the center channel of 5.1/7.1 (where dialogue lives) and
+ * drops the LFE channel.
+ */
+export function getChannelGains(channelCount: number, mix: ChannelMix): number[] {
+  if (mix.mode === "channel") {
+    return Array.from({ length: channelCount }, (_, channel) =>
+      channel === mix.channel ? 1 : 0
+    );
+  }
+  if (mix.mode === "custom") {
+    return Array.from({ length: channelCount }, (_, channel) => mix.gains[channel] ?? 0);
+  }
+
+  switch (channelCount) {
+    case 1:
+      return [1];
+    case 2:
+      return [Math.SQRT1_2, Math.SQRT1_2];
+    case 6:
+      return [Math.SQRT1_2, Math.SQRT1_2, 1, 0, 0.5, 0.5];
+    case 8:
+      return [Math.SQRT1_2, Math.SQRT1_2, 1, 0, 0.5, 0.5, 0.5, 0.5];
+    default:
+      return Array.from({ length: channelCount }, () => 1 / channelCount);
+  }
+}
+
+export function mixChannels(buffer: AudioBuffer, gains: number[]): Float32Array<ArrayBuffer> {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const gain = gains[channel] ?? 0;
+    if (gain === 0) {
+      continue;
+    }
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += data[i] * gain;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Applies a channel choice to a decoded buffer for export. The default
+ * downmix keeps the original layout; any other choice becomes mono.
+ */
+export function remixAudioBuffer(buffer: AudioBuffer, mix: ChannelMix): AudioBuffer {
+  if (mix.mode === "mixdown") {
+    return buffer;
+  }
+
+  const mono = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: 1,
+    sampleRate: buffer.sampleRate,
+  });
+  mono.copyToChannel(mixChannels(buffer, getChannelGains(buffer.numberOfChannels, mix)), 0);
+  return mono;
+}
+
+/**
+ * Resolves the selected audio track of an input, falling back to the primary
+ * track when the id is missing or no longer present.
+ */
+export async function getSelectedAudioTrack(
+  input: Input,
+  trackId?: number
+): Promise<InputAudioTrack | null> {
+  if (trackId !== undefined) {
+    const tracks = await input.getAudioTracks();
+    const track = tracks.find((candidate) => candidate.id === trackId);
+    if (track) {
+      return track;
+    }
+  }
+  return input.getPrimaryAudioTrack();
+}
+
+/**
+ * Lists the audio tracks of a media file for the track picker.
+ */
+export async function listAudioTracks(file: Blob): Promise<AudioTrackInfo[]> {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  const tracks = await input.getAudioTracks();
+  const primary = await input.getPrimaryAudioTrack();
+
+  return tracks.map((track, index) => {
+    const details = [
+      track.languageCode !== "und" ? track.languageCode : null,
+      track.codec,
+      `${track.numberOfChannels} ch`,
+    ].filter(Boolean);
+
+    return {
+      id: track.id,
+      label: `${track.name || `Track ${index + 1}`} (${details.join(", ")})`,
+      channels: track.numberOfChannels,
+      sampleRate: track.sampleRate,
+      isDefault: track.id === primary?.id,
+    };
+  });
+}
+
+// Stretch of the original timeline, in seconds, that contains speech
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+/**
+ * A run of samples kept by the silence filter. Windows are cut from the
+ * compacted (speech only) audio, so these map model timestamps back onto the
+ * original timeline.
+ */
+export interface TimelineSegment {
+  // First sample of the run in the compacted audio
+  offset: number;
+  // The same sample in the original audio
+  source: number;
+  length: number;
+}
+
+export interface DecodedAudioWindow extends AudioWindow {
+  // 16 kHz mono samples for `start`..`end`, in a buffer of their own so it
+  // can be transferred to the worker
+  audio: Float32Array;
+  // Present when silence was removed; window sample positions are then in
+  // compacted audio rather than the original timeline
+  segments?: TimelineSegment[];
+}
+
+interface WindowOptions {
+  windowSeconds?: number;
+  strideSeconds?: number;
+  sampleRate?: number;
+}
+
+interface DecodeWindowOptions extends WindowOptions {
+  audio?: AudioSelection;
+  // Drop long silences before windowing so they are never transcribed
+  skipSilence?: boolean;
+  // Receives every speech region found so far whenever a window is yielded
+  onSpeechRegions?: (regions: SpeechRegion[]) => void;
+  // Receives the waveform of the original timeline decoded so far, at
+  // `WAVEFORM_BINS_PER_SECOND`, every minute of audio and once at the end
+  onWaveform?: (levels: Float32Array) => void;
+}
+
+function getWindowSizes({
+  windowSeconds = 30,
+  strideSeconds = 5,
+  sampleRate = WHISPER_SAMPLING_RATE,
+}: WindowOptions) {
+  const windowSamples = Math.round(windowSeconds * sampleRate);
+  const strideSamples = Math.round(strideSeconds * sampleRate);
+  return { windowSamples, strideSamples, jump: windowSamples - 2 * strideSamples };
+}
+
+function createWindow(
+  start: number,
+  end: number,
+  isLast: boolean,
+  strideSamples: number
+): AudioWindow {
+  return {
+    start,
+    end,
+    ownedStart: start === 0 ? start : start + strideSamples,
+    ownedEnd: isLast ? end : end - strideSamples,
+  };
+}
+
+/**
+ * Splits `totalSamples` into overlapping 30 second windows the same way the
+ * transformers.js pipeline chunks audio (window - 2 * stride per step), so
+ * each window can be transcribed and reported on its own.
+ */
+export function planAudioWindows(
+  totalSamples: number,
+  options: WindowOptions = {}
+): AudioWindow[] {
+  const { windowSamples, strideSamples, jump } = getWindowSizes(options);
+  const windows: AudioWindow[] = [];
+
+  for (let start = 0; ; start += jump) {
+    const end = Math.min(start + windowSamples, totalSamples);
+    const isLast = end >= totalSamples;
+
+    windows.push(createWindow(start, end, isLast, strideSamples));
+
+    if (isLast) {
+      break;
+    }
+  }
+
+  return windows;
+}
+
+// Source audio is resampled in blocks of this many seconds, which keeps the
+// OfflineAudioContext small while making block edges rare
+const RESAMPLE_BLOCK_SECONDS = 10;
+// The live waveform is re-published every this many blocks (one minute)
+const WAVEFORM_REPORT_BLOCKS = 6;
+
+async function resampleToWhisperRate(
+  samples: Float32Array<ArrayBuffer>,
+  sampleRate: number
+): Promise<Float32Array> {
+  if (sampleRate === WHISPER_SAMPLING_RATE) {
+    return samples;
+  }
+
+  const length = Math.ceil((samples.length * WHISPER_SAMPLING_RATE) / sampleRate);
+  const context = new OfflineAudioContext(1, length, WHISPER_SAMPLING_RATE);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+
+  return (await context.startRendering()).getChannelData(0);
+}
+
+/**
+ * Decodes the primary audio track packet by packet and yields 16 kHz mono
+ * blocks, so at most one block of source audio is held in memory.
+ */
+async function* decodeWhisperAudio(
+  file: File,
+  selection: AudioSelection
+): AsyncGenerator<Float32Array> {
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+  const track = await getSelectedAudioTrack(input, selection.trackId);
+
+  if (!track) {
+    throw new Error("The file has no audio track");
+  }
+  if (!(await track.canDecode())) {
+    throw new Error(`This browser cannot decode ${track.codec ?? "the"} audio`);
+  }
+
+  const gains = getChannelGains(track.numberOfChannels, selection.channels);
+  const blockSamples = track.sampleRate * RESAMPLE_BLOCK_SECONDS;
+  let block = new Float32Array(blockSamples);
+  let blockLength = 0;
+
+  for await (const { buffer } of new AudioBufferSink(track).buffers()) {
+    const mono = mixChannels(buffer, gains);
+
+    for (let offset = 0; offset < mono.length; ) {
+      const count = Math.min(mono.length - offset, blockSamples - blockLength);
+      block.set(mono.subarray(offset, offset + count), blockLength);
+      blockLength += count;
+      offset += count;
+
+      if (blockLength === blockSamples) {
+        yield await resampleToWhisperRate(block, track.sampleRate);
+        block = new Float32Array(blockSamples);
+        blockLength = 0;
+      }
+    }
+  }
+
+  if (blockLength > 0) {
+    yield await resampleToWhisperRate(block.subarray(0, blockLength), track.sampleRate);
+  }
+}
+
+// Energy VAD settings, in 30 ms frames at 16 kHz
+const VAD_FRAME_SAMPLES = 480;
+// Kept on both sides of speech so word onsets and tails are not clipped
+const VAD_PADDING_FRAMES = 10;
+// Pauses shorter than this (about 1 s) are left in place
+const VAD_MIN_SILENCE_FRAMES = 34;
+const VAD_MIN_SPEECH_DB = -50;
+// How far above the running noise floor a frame must be to count as speech
+const VAD_NOISE_MARGIN_DB = 10;
+// The noise floor drops immediately but rises over roughly 15 seconds, so
+// steady background music does not read as speech forever
+const VAD_NOISE_FLOOR_RISE = 0.002;
+
+interface VadFrame {
+  samples: Float32Array;
+  source: number;
+}
+
+function getFrameDb(samples: Float32Array): number {
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    energy += samples[i] * samples[i];
+  }
+  return 10 * Math.log10(energy / Math.max(1, samples.length) + 1e-10);
+}
+
+/**
+ * Streaming energy-based voice activity detection. Audio goes in block by
+ * block; only speech plus padding comes out, and `segments` records where
+ * each kept run came from. Silence is dropped as it arrives, so a long quiet
+ * stretch never has to be held in memory.
+ */
+class SilenceFilter {
+  readonly segments: TimelineSegment[] = [];
+  private keptSamples = 0;
+  private sourceSamples = 0;
+  private noiseFloorDb = VAD_MIN_SPEECH_DB - VAD_NOISE_MARGIN_DB;
+  private hasSpeech = false;
+  private partialFrame = new Float32Array(0);
+  // Silent frames since the last speech frame; once the pause is long enough
+  // to cut, only the trailing padding is retained
+  private silence: VadFrame[] = [];
+  private silenceFrames = 0;
+  private isCut = false;
+  private output: Float32Array[] = [];
+
+  push(block: Float32Array): Float32Array {
+    let samples = block;
+    if (this.partialFrame.length > 0) {
+      samples = new Float32Array(this.partialFrame.length + block.length);
+      samples.set(this.partialFrame);
+      samples.set(block, this.partialFrame.length);
+    }
+
+    let offset = 0;
+    for (; offset + VAD_FRAME_SAMPLES <= samples.length; offset += VAD_FRAME_SAMPLES) {
+      this.processFrame(samples.subarray(offset, offset + VAD_FRAME_SAMPLES));
+    }
+    this.partialFrame = samples.slice(offset);
+
+    return this.drain();
+  }
+
+  flush(): Float32Array {
+    if (this.partialFrame.length > 0) {
+      this.processFrame(this.partialFrame);
+      this.partialFrame = new Float32Array(0);
+    }
+    if (this.hasSpeech && !this.isCut) {
+      this.emitFrames(this.silence);
+    }
+    this.silence = [];
+    return this.drain();
+  }
+
+  get totalSourceSamples(): number {
+    return this.sourceSamples;
+  }
+
+  getSpeechRegions(): SpeechRegion[] {
+    return this.segments.map((segment) => ({
+      start: segment.source / WHISPER_SAMPLING_RATE,
+      end: (segment.source + segment.length) / WHISPER_SAMPLING_RATE,
+    }));
+  }
+
+  private processFrame(samples: Float32Array) {
+    const frame = { samples, source: this.sourceSamples };
+    this.sourceSamples += samples.length;
+
+    const db = getFrameDb(samples);
+    const isSpeech = db > Math.max(VAD_MIN_SPEECH_DB, this.noiseFloorDb + VAD_NOISE_MARGIN_DB);
+    this.noiseFloorDb =
+      db < this.noiseFloorDb
+        ? db
+        : this.noiseFloorDb + (db - this.noiseFloorDb) * VAD_NOISE_FLOOR_RISE;
+
+    if (isSpeech) {
+      // Short pauses inside speech are kept whole; otherwise only the
+      // padding in front of this speech survives
+      const keepWholePause = this.hasSpeech && !this.isCut;
+      this.emitFrames(
+        keepWholePause ? this.silence : this.silence.slice(-VAD_PADDING_FRAMES)
+      );
+      this.emitFrames([frame]);
+      this.silence = [];
+      this.silenceFrames = 0;
+      this.isCut = false;
+      this.hasSpeech = true;
+      return;
+    }
+
+    this.silence.push(frame);
+    this.silenceFrames += 1;
+
+    if (!this.isCut && this.silenceFrames > VAD_MIN_SILENCE_FRAMES) {
+      if (this.hasSpeech) {
+        this.emitFrames(this.silence.slice(0, VAD_PADDING_FRAMES));
+      }
+      this.isCut = true;
+    }
+    if (this.isCut && this.silence.length > VAD_PADDING_FRAMES) {
+      this.silence = this.silence.slice(-VAD_PADDING_FRAMES);
+    }
+    if (!this.hasSpeech && this.silence.length > VAD_PADDING_FRAMES) {
+      this.silence.shift();
+    }
+  }
+
+  private emitFrames(frames: VadFrame[]) {
+    for (const { samples, source } of frames) {
+      const last = this.segments[this.segments.length - 1];
+      if (last && last.source + last.length === source) {
+        last.length += samples.length;
+      } else {
+        this.segments.push({ offset: this.keptSamples, source, length: samples.length });
+      }
+      this.keptSamples += samples.length;
+      this.output.push(samples);
+    }
+  }
+
+  private drain(): Float32Array {
+    const length = this.output.reduce((total, samples) => total + samples.length, 0);
+    const kept = new Float32Array(length);
+    let offset = 0;
+    for (const samples of this.output) {
+      kept.set(samples, offset);
+      offset += samples.length;
+    }
+    this.output = [];
+    return kept;
+  }
+}
+
+/**
+ * Maps a time in compacted audio back onto the original timeline. A time on
+ * the boundary between two kept runs belongs to the later run when it starts
+ * a word and to the earlier run when it ends one.
+ */
+export function mapToSourceTime(
+  seconds: number,
+  segments: TimelineSegment[],
+  edge: "start" | "end"
+): number {
+  const sample = seconds * WHISPER_SAMPLING_RATE;
+
+  for (const segment of segments) {
+    const segmentEnd = segment.offset + segment.length;
+    if (edge === "start" ? sample < segmentEnd : sample <= segmentEnd) {
+      return (segment.source + Math.max(0, sample - segment.offset)) / WHISPER_SAMPLING_RATE;
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  return last
+    ? (last.source + sample - last.offset) / WHISPER_SAMPLING_RATE
+    : seconds;
+}
+
+/**
+ * Duration of the media file in seconds, or 0 when the container cannot be
+ * read without decoding it.
+ */
+export async function getMediaDuration(file: File): Promise<number> {
+  try {
+    const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+    return await input.computeDuration();
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Streams 16 kHz blocks, falling back to a whole-file `decodeAudioData` when
+ * the container or codec cannot be decoded packet by packet.
+ */
+async function* decodeAudioBlocks(
+  file: File,
+  selection: AudioSelection
+): AsyncGenerator<Float32Array> {
+  const stream = decodeWhisperAudio(file, selection);
+  let first: IteratorResult<Float32Array>;
+
+  try {
+    first = await stream.next();
+  } catch (error) {
+    // decodeAudioData always picks the default track; the channel choice
+    // still applies
+    console.warn("Streaming audio decode unavailable, decoding whole file:", error);
+    yield await extractAudioFromVideo(file, selection.channels);
+    return;
+  }
+
+  if (!first.done) {
+    yield first.value;
+    yield* stream;
+  }
+}
+
+/**
+ * Yields the same windows as `planAudioWindows` while decoding, keeping only
+ * the samples of the window that is being assembled.
+ */
+export async function* decodeAudioWindows(
+  file: File,
+  {
+    audio = DEFAULT_AUDIO_SELECTION,
+    skipSilence = false,
+    onSpeechRegions,
+    onWaveform,
+    ...options
+  }: DecodeWindowOptions = {}
+): AsyncGenerator<DecodedAudioWindow> {
+  const { windowSamples, strideSamples, jump } = getWindowSizes(options);
+  const filter = skipSilence ? new SilenceFilter() : null;
+  const waveform = onWaveform ? new WaveformBuilder() : null;
+
+  const getWindowSegments = (start: number, end: number) => {
+    if (!filter) {
+      return undefined;
+    }
+    onSpeechRegions?.(filter.getSpeechRegions());
+    return filter.segments
+      .filter((segment) => segment.offset < end && segment.offset + segment.length > start)
+      .map((segment) => ({ ...segment }));
+  };
+
+  const blocks = async function* () {
+    let blockCount = 0;
+    for await (const block of decodeAudioBlocks(file, audio)) {
+      if (waveform) {
+        waveform.addChannels([block], WHISPER_SAMPLING_RATE);
+        blockCount += 1;
+        if (blockCount % WAVEFORM_REPORT_BLOCKS === 0) {
+          onWaveform?.(waveform.finish());
+        }
+      }
+      yield filter ? filter.push(block) : block;
+    }
+    if (waveform) {
+      onWaveform?.(waveform.finish());
+    }
+    if (filter) {
+      yield filter.flush();
+    }
+  };
+
+  // Samples from `windowStart` onwards that have been decoded so far
+  let pending = new Float32Array(windowSamples);
+  let pendingLength = 0;
+  let windowStart = 0;
+
+  for await (const block of blocks()) {
+    for (let offset = 0; offset < block.length; ) {
+      const count = Math.min(block.length - offset, windowSamples - pendingLength);
+      pending.set(block.subarray(offset, offset + count), pendingLength);
+      pendingLength += count;
+      offset += count;
+
+      if (pendingLength === windowSamples) {
+        yield {
+          ...createWindow(windowStart, windowStart + windowSamples, false, strideSamples),
+          audio: pending.slice(),
+          segments: getWindowSegments(windowStart, windowStart + windowSamples),
+        };
+
+        // The next window starts `jump` samples later and reuses the overlap
+        const next = new Float32Array(windowSamples);
+        next.set(pending.subarray(jump));
+        pending = next;
+        pendingLength = windowSamples - jump;
+        windowStart += jump;
+      }
+    }
+  }
+
+  const totalSamples = windowStart + pendingLength;
+  if (totalSamples === 0) {
+    if (filter && filter.totalSourceSamples > 0) {
+      onSpeechRegions?.([]);
+      throw new Error("No speech was detected in this file");
+    }
+    return;
+  }
+
+  yield {
+    ...createWindow(windowStart, totalSamples, true, strideSamples),
+    audio: pending.slice(0, pendingLength),
+    segments: getWindowSegments(windowStart, totalSamples),
+  };
+}
+
 export async function extractAudioFromVideo(
-  videoFile: File
+  videoFile: File,
+  channels: ChannelMix = DEFAULT_AUDIO_SELECTION.channels
 ): Promise<Float32Array> {
   // Read file as ArrayBuffer
   const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
@@ -33,26 +756,15 @@ export async function extractAudioFromVideo(
       length: audioBuffer.length,
     });
 
-    // Handle stereo vs mono
-    if (audioBuffer.numberOfChannels === 2) {
-      // Merge channels for stereo
-      const SCALING_FACTOR = Math.sqrt(2);
-      const left = audioBuffer.getChannelData(0);
-      const right = audioBuffer.getChannelData(1);
-      const audio = new Float32Array(left.length);
-
-      for (let i = 0; i < audioBuffer.length; ++i) {
-        audio[i] = (SCALING_FACTOR * (left[i] + right[i])) / 2;
-      }
-
-      console.log("Converted stereo to mono, length:", audio.length);
-      return audio;
-    } else {
-      // Use the first channel for mono
-      const audio = audioBuffer.getChannelData(0);
-      console.log("Using mono audio, length:", audio.length);
-      return audio;
-    }
+    const audio = mixChannels(
+      audioBuffer,
+      getChannelGains(audioBuffer.numberOfChannels, channels)
+    );
+    console.log(
+      `Mixed ${audioBuffer.numberOfChannels} channel(s) to mono, length:`,
+      audio.length
+    );
+    return audio;
   } catch (e) {
     console.error("Audio extraction error:", e);
     if (e instanceof Error) {
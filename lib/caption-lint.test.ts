@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  CAPTION_LINT_PRESETS,
+  applyCaptionFix,
+  lintCaptions,
+  wrapCaptionText,
+  type CaptionLintRule,
+} from "./caption-lint";
+import { cueTexts, word, type TestWord } from "./test-utils";
+import { processTranscriptChunks } from "./utils";
+
+const netflix = CAPTION_LINT_PRESETS.find((preset) => preset.id === "netflix")!.rules;
+
+const cuesOf = (chunks: TestWord[]) => processTranscriptChunks({ chunks }, "phrase");
+const lint = (chunks: TestWord[]) => lintCaptions(cuesOf(chunks), netflix);
+
+// Applies the fix the linter offers for `rule` on a cue, the way the sidebar does
+function applyFix(chunks: TestWord[], cueIndex: number, rule: CaptionLintRule): TestWord[] {
+  const issue = lint(chunks).find((entry) => entry.cueIndex === cueIndex && entry.rule === rule);
+  expect(issue?.fix).toBeDefined();
+  const indices = cuesOf(chunks)[cueIndex].words!.map((entry) => entry.sourceIndex!);
+  return applyCaptionFix(chunks, indices, issue!.fix!);
+}
+
+describe("wrapCaptionText", () => {
+  it("wraps greedily at word boundaries", () => {
+    expect(wrapCaptionText("one two three four", 9)).toEqual(["one two", "three", "four"]);
+    expect(wrapCaptionText("  spaced   out  ", 20)).toEqual(["spaced out"]);
+  });
+});
+
+describe("lintCaptions", () => {
+  it("accepts cues within the rules", () => {
+    expect(lint([word("Hello", 0, 0.5), word("world.", 0.5, 1.5)])).toEqual([]);
+  });
+
+  it("flags short and fast cues with an extend fix", () => {
+    const issues = lint([word("Quick", 0, 0.3), word("words.", 0.3, 0.4)]);
+    expect(issues.map((issue) => [issue.rule, issue.fix])).toEqual([
+      ["maxCharsPerSecond", { kind: "retime", label: "Extend to 0.6 s", timestamp: [0, 0.6] }],
+      ["minDuration", { kind: "retime", label: "Extend to 0.83 s", timestamp: [0, 5 / 6] }],
+    ]);
+  });
+
+  it("offers no extend fix when the next cue leaves no room", () => {
+    const issues = lint([word("Quick.", 0, 0.3), word("Next.", 0.5, 1.5)]);
+    expect(issues.map((issue) => [issue.rule, issue.fix])).toEqual([["minDuration", undefined]]);
+  });
+
+  it("suggests splitting cues that are too long or need too many lines", () => {
+    const text =
+      "This sentence is far too long to fit on two lines of a screen, " +
+      "so it needs to be split somewhere near the middle";
+    // Pinned into one cue, as if imported
+    const chunks = text
+      .split(" ")
+      .map((entry, i) =>
+        word(entry, i * 0.5, i * 0.5 + 0.4, { phraseBreak: i === 0 ? "force" : "never" })
+      );
+    const issues = lint(chunks);
+    expect(issues.map((issue) => issue.rule)).toEqual(["maxDuration", "maxLines"]);
+    // After "screen," near the middle of the text
+    expect(issues[0].fix).toEqual({
+      kind: "split",
+      label: "Split cue",
+      offset: text.indexOf("so it"),
+    });
+  });
+
+  it("flags a word too long for a line without a fix", () => {
+    const issues = lint([word("Pneumonoultramicroscopicsilicovolcanoconiosis", 0, 3)]);
+    expect(issues.map((issue) => [issue.rule, issue.fix])).toEqual([
+      ["maxCharsPerLine", undefined],
+    ]);
+  });
+
+  it("flags overlapping cues and measures gaps past disabled cues", () => {
+    const overlapping = [
+      word("First", 0, 1.2, { phraseBreak: "force" }),
+      word("second.", 1.1, 2, { phraseBreak: "force" }),
+    ];
+    expect(lint(overlapping)).toEqual([
+      {
+        cueIndex: 0,
+        rule: "minGap",
+        message: "Overlaps the next cue by 0.1 s",
+        fix: { kind: "retime", label: "End earlier", timestamp: [0, 1.1 - netflix.minGap] },
+      },
+    ]);
+
+    const skipped = [
+      word("First.", 0, 1),
+      word("gone.", 1, 1.5, { disabled: true }),
+      word("Third.", 2, 3),
+    ];
+    expect(lint(skipped)).toEqual([]);
+  });
+});
+
+describe("applyCaptionFix", () => {
+  it("keeps an extended cue apart from the next one", () => {
+    const chunks = [word("Hi", 0, 0.15), word("there", 0.15, 0.3), word("friend", 1, 2)];
+    expect(cueTexts(chunks)).toEqual(["Hi there", "friend"]);
+
+    const fixed = applyFix(chunks, 0, "minDuration");
+    expect(fixed[1].timestamp[1]).toBeCloseTo(5 / 6);
+    expect(cueTexts(fixed)).toEqual(["Hi there", "friend"]);
+    expect(lint(fixed)).toEqual([]);
+  });
+
+  it("keeps a cue whole when extending it past the grouping limits", () => {
+    const texts = [
+      "Unbelievable",
+      "performances",
+      "everywhere",
+      "throughout",
+      "wonderful",
+      "festivals",
+    ];
+    const chunks = [...texts.map((text, i) => word(text, i / 3, (i + 1) / 3)), word("Next", 6, 7)];
+    const fixed = applyFix(chunks, 0, "maxCharsPerSecond");
+    // Longer than the three seconds automatic grouping allows
+    expect(fixed[5].timestamp[1]).toBeGreaterThan(3);
+    expect(cueTexts(fixed)).toEqual([texts.join(" "), "Next"]);
+  });
+
+  it("keeps cue boundaries when ending a cue earlier", () => {
+    const chunks = [
+      word("First", 0, 0.6, { phraseBreak: "force" }),
+      word("cue", 0.6, 1.2),
+      word("second", 1.1, 1.6, { phraseBreak: "force" }),
+      word("cue.", 1.6, 2),
+    ];
+    const fixed = applyFix(chunks, 0, "minGap");
+    expect(fixed[1].timestamp[1]).toBeCloseTo(1.1 - netflix.minGap);
+    expect(cueTexts(fixed)).toEqual(["First cue", "second cue."]);
+    expect(lint(fixed)).toEqual([]);
+  });
+
+  it("splits a cue at the suggested offset", () => {
+    const chunks = [word("One,", 0, 1), word("two", 1, 2), word("three", 2, 3)];
+    const fixed = applyCaptionFix(chunks, [0, 1, 2], {
+      kind: "split",
+      label: "Split cue",
+      offset: "One, ".length,
+    });
+    expect(cueTexts(fixed)).toEqual(["One,", "two three"]);
+  });
+});
@@ -0,0 +1,228 @@
+import { pinPhrase, retimeCue, splitPhrase, type PhraseBreak } from "@/lib/transcript-editing";
+import type { ProcessedChunk } from "@/lib/utils";
+
+/**
+ * Readability limits for cues. Durations and gaps are in seconds; lines are
+ * counted as a player wraps the cue text at `maxCharsPerLine`.
+ */
+export interface CaptionLintRules {
+  maxCharsPerSecond: number;
+  maxCharsPerLine: number;
+  maxLines: number;
+  minDuration: number;
+  maxDuration: number;
+  // Pause between the end of one cue and the start of the next
+  minGap: number;
+}
+
+export interface CaptionLintPreset {
+  id: string;
+  label: string;
+  rules: CaptionLintRules;
+}
+
+export const CAPTION_LINT_PRESETS: CaptionLintPreset[] = [
+  {
+    // Netflix timed text style guide for English: 20 cps for adult
+    // programmes, 42 characters, 5/6 s to 7 s, two frames between cues
+    id: "netflix",
+    label: "Netflix",
+    rules: {
+      maxCharsPerSecond: 20,
+      maxCharsPerLine: 42,
+      maxLines: 2,
+      minDuration: 5 / 6,
+      maxDuration: 7,
+      minGap: 2 / 24,
+    },
+  },
+  {
+    // BBC subtitle guidelines: 160-180 words per minute, about 37
+    // characters per line in 16:9, at least a second per cue
+    id: "bbc",
+    label: "BBC",
+    rules: {
+      maxCharsPerSecond: 17,
+      maxCharsPerLine: 37,
+      maxLines: 2,
+      minDuration: 1,
+      maxDuration: 7,
+      minGap: 2 / 25,
+    },
+  },
+];
+
+export type CaptionLintRule = keyof CaptionLintRules;
+
+/**
+ * A one-click repair for an issue, applied to the word chunks of its cue:
+ * moving its end, or splitting it at a character offset of its text.
+ */
+export type CaptionFix =
+  | { kind: "retime"; label: string; timestamp: [number, number] }
+  | { kind: "split"; label: string; offset: number };
+
+export interface CaptionIssue {
+  cueIndex: number;
+  rule: CaptionLintRule;
+  message: string;
+  fix?: CaptionFix;
+}
+
+// Greedy word wrap, the way players break a long cue
+export function wrapCaptionText(text: string, maxCharsPerLine: number): string[] {
+  const lines: string[] = [];
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxCharsPerLine) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Offset of the word boundary that splits `text` most evenly, preferring one
+ * after punctuation near the middle; null for a single word.
+ */
+function findSplitOffset(text: string): number | null {
+  const boundaries = [...text.matchAll(/ /g)].map((match) => match.index!);
+  if (boundaries.length === 0) {
+    return null;
+  }
+
+  const middle = text.length / 2;
+  const byDistance = [...boundaries].sort(
+    (a, b) => Math.abs(a - middle) - Math.abs(b - middle)
+  );
+  const afterPunctuation = byDistance.find(
+    (offset) =>
+      /[,;:.!?]$/.test(text.slice(0, offset)) && Math.abs(offset - middle) <= text.length / 4
+  );
+  return (afterPunctuation ?? byDistance[0]) + 1;
+}
+
+const formatSeconds = (seconds: number) => `${Math.round(seconds * 100) / 100} s`;
+
+// Retimed words carry rounding errors, so a cue fixed to exactly a limit
+// would otherwise still break it
+const TOLERANCE = 1e-6;
+
+/**
+ * Checks processed cues against the rules. Disabled cues are not shown, so
+ * they are skipped, also when measuring the gap to the next cue.
+ */
+export function lintCaptions(cues: ProcessedChunk[], rules: CaptionLintRules): CaptionIssue[] {
+  const issues: CaptionIssue[] = [];
+  const shown = cues
+    .map((cue, cueIndex) => ({ cue, cueIndex }))
+    .filter(({ cue }) => !cue.disabled && cue.text.trim());
+
+  shown.forEach(({ cue, cueIndex }, position) => {
+    const text = cue.text.trim();
+    const [start, end] = cue.timestamp;
+    const duration = end - start;
+    const nextStart = shown[position + 1]?.cue.timestamp[0] ?? Infinity;
+    // Latest end that still leaves the minimum gap to the next cue
+    const latestEnd = nextStart - rules.minGap;
+    const splitOffset = findSplitOffset(text);
+    const splitFix: CaptionFix | undefined =
+      splitOffset !== null ? { kind: "split", label: "Split cue", offset: splitOffset } : undefined;
+
+    // Extending the end fixes a cue that is too short or too fast, when the
+    // next cue leaves room for it
+    const extendTo = (targetDuration: number): CaptionFix | undefined =>
+      start + targetDuration <= latestEnd
+        ? {
+            kind: "retime",
+            label: `Extend to ${formatSeconds(targetDuration)}`,
+            timestamp: [start, start + targetDuration],
+          }
+        : undefined;
+
+    const charsPerSecond = duration > 0 ? text.length / duration : Infinity;
+    if (charsPerSecond > rules.maxCharsPerSecond + TOLERANCE) {
+      issues.push({
+        cueIndex,
+        rule: "maxCharsPerSecond",
+        message: `${Math.round(charsPerSecond)} characters per second (max ${rules.maxCharsPerSecond})`,
+        fix: extendTo(text.length / rules.maxCharsPerSecond),
+      });
+    }
+
+    if (duration < rules.minDuration - TOLERANCE) {
+      issues.push({
+        cueIndex,
+        rule: "minDuration",
+        message: `On screen for ${formatSeconds(duration)} (min ${formatSeconds(rules.minDuration)})`,
+        fix: extendTo(rules.minDuration),
+      });
+    }
+
+    if (duration > rules.maxDuration + TOLERANCE) {
+      issues.push({
+        cueIndex,
+        rule: "maxDuration",
+        message: `On screen for ${formatSeconds(duration)} (max ${formatSeconds(rules.maxDuration)})`,
+        fix: splitFix ?? {
+          kind: "retime",
+          label: `Shorten to ${formatSeconds(rules.maxDuration)}`,
+          timestamp: [start, start + rules.maxDuration],
+        },
+      });
+    }
+
+    const lines = wrapCaptionText(text, rules.maxCharsPerLine);
+    const longestLine = Math.max(...lines.map((line) => line.length));
+    if (longestLine > rules.maxCharsPerLine) {
+      issues.push({
+        cueIndex,
+        rule: "maxCharsPerLine",
+        message: `A word of ${longestLine} characters does not fit a line (max ${rules.maxCharsPerLine})`,
+      });
+    }
+    if (lines.length > rules.maxLines) {
+      issues.push({
+        cueIndex,
+        rule: "maxLines",
+        message: `Needs ${lines.length} lines of ${rules.maxCharsPerLine} characters (max ${rules.maxLines})`,
+        fix: splitFix,
+      });
+    }
+
+    const gap = nextStart - end;
+    if (gap < rules.minGap - TOLERANCE) {
+      // Ending earlier is only a fix while the cue keeps a sensible length
+      const canShorten = latestEnd - start >= Math.min(duration, rules.minDuration);
+      issues.push({
+        cueIndex,
+        rule: "minGap",
+        message:
+          gap < 0
+            ? `Overlaps the next cue by ${formatSeconds(-gap)}`
+            : `Only ${formatSeconds(gap)} before the next cue (min ${formatSeconds(rules.minGap)})`,
+        fix: canShorten
+          ? { kind: "retime", label: "End earlier", timestamp: [start, latestEnd] }
+          : undefined,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Applies a fix to the word chunks (`indices`) the cue is built from. A
+ * retimed cue is pinned, since a smaller gap or a longer span would otherwise
+ * let automatic grouping join it with the next cue or split it.
+ */
+export function applyCaptionFix<
+  T extends { text: string; timestamp: [number, number]; phraseBreak?: PhraseBreak },
+>(chunks: T[], indices: number[], fix: CaptionFix): T[] {
+  if (fix.kind === "retime") {
+    return pinPhrase(retimeCue(chunks, indices, fix.timestamp), indices);
+  }
+  return splitPhrase(chunks, indices, fix.offset);
+}
@@ -0,0 +1,96 @@
+import {
+  buildSearchPattern,
+  findTranscriptMatches,
+  replaceTranscriptMatches,
+} from "@/lib/transcript-search";
+
+export interface GlossaryEntry {
+  id: string;
+  // Spelling the transcript should use
+  term: string;
+  // Sound-alike spellings Whisper produces instead, replaced by `term`
+  variants: string[];
+}
+
+const GLOSSARY_STORAGE_KEY = "clipmira:glossary";
+
+export function createGlossaryEntry(term = "", variants: string[] = []): GlossaryEntry {
+  return { id: crypto.randomUUID(), term, variants };
+}
+
+export function loadGlossary(): GlossaryEntry[] {
+  try {
+    const stored = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+    const entries: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(entries)
+      ? entries.filter(
+          (entry): entry is GlossaryEntry =>
+            typeof entry?.id === "string" &&
+            typeof entry.term === "string" &&
+            Array.isArray(entry.variants)
+        )
+      : [];
+  } catch {
+    // Unavailable storage or a corrupt value just means an empty glossary
+    return [];
+  }
+}
+
+export function saveGlossary(entries: GlossaryEntry[]): void {
+  try {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Could not save the glossary:", error);
+  }
+}
+
+/**
+ * Comma separated terms for Whisper's initial prompt. Seeing the spellings
+ * as if they were earlier speech makes the model more likely to reuse them.
+ */
+export function buildGlossaryPrompt(entries: GlossaryEntry[]): string {
+  const terms = entries.map((entry) => entry.term.trim()).filter(Boolean);
+  return terms.length > 0 ? `${[...new Set(terms)].join(", ")}.` : "";
+}
+
+/**
+ * Replaces every variant of a glossary term, and the term itself in another
+ * casing, with the term. Matches are whole words and case-insensitive; a
+ * variant spanning several words merges their chunks like find and replace.
+ */
+export function applyGlossary<T extends { text: string; timestamp: [number, number] }>(
+  chunks: T[],
+  entries: GlossaryEntry[]
+): T[] {
+  let result = chunks;
+
+  for (const entry of entries) {
+    const term = entry.term.trim();
+    if (!term) {
+      continue;
+    }
+    // `$` would otherwise be read as a reference to a capture group
+    const replacement = term.replace(/\$/g, "$$$$");
+
+    for (const spelling of [term, ...entry.variants]) {
+      const pattern = buildSearchPattern({
+        query: spelling.trim(),
+        caseSensitive: false,
+        wholeWord: true,
+        regex: false,
+      });
+      if (!pattern) {
+        continue;
+      }
+      // Leave words that are already spelled right untouched
+      const matches = findTranscriptMatches(result, pattern).filter(
+        (match) => match.text !== term
+      );
+      if (matches.length > 0) {
+        result = replaceTranscriptMatches(result, matches, replacement);
+      }
+    }
+  }
+
+  return result;
+}
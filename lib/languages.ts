@@ -0,0 +1,93 @@
+/**
+ * Sentinel language value that asks the worker to detect the spoken language
+ * from the first window of audio instead of forcing one.
+ */
+export const AUTO_DETECT_LANGUAGE = "auto";
+
+export type TranscriptionLanguage = typeof AUTO_DETECT_LANGUAGE | string;
+
+/**
+ * Whisper decoding task: keep the spoken language, or translate to English
+ * in the same pass.
+ */
+export type TranscriptionTask = "transcribe" | "translate";
+
+/**
+ * Whisper language codes offered in the language picker, keyed by the code the
+ * model expects (`<|code|>` token) and mapped to a readable label.
+ */
+export const WHISPER_LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+  fr: "French",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese",
+  ru: "Russian",
+  uk: "Ukrainian",
+  pl: "Polish",
+  cs: "Czech",
+  sk: "Slovak",
+  ro: "Romanian",
+  hu: "Hungarian",
+  el: "Greek",
+  tr: "Turkish",
+  ar: "Arabic",
+  he: "Hebrew",
+  fa: "Persian",
+  hi: "Hindi",
+  bn: "Bengali",
+  ur: "Urdu",
+  ta: "Tamil",
+  th: "Thai",
+  vi: "Vietnamese",
+  id: "Indonesian",
+  ms: "Malay",
+  tl: "Tagalog",
+  sv: "Swedish",
+  no: "Norwegian",
+  da: "Danish",
+  fi: "Finnish",
+  ca: "Catalan",
+  hr: "Croatian",
+  sr: "Serbian",
+  bg: "Bulgarian",
+  sw: "Swahili",
+};
+
+/**
+ * Human readable name for a Whisper language code, falling back to the code
+ * itself for languages that are not in the picker list.
+ */
+export function getLanguageLabel(code: string | null | undefined): string {
+  if (!code) {
+    return "Unknown";
+  }
+  if (code === AUTO_DETECT_LANGUAGE) {
+    return "Auto-detect";
+  }
+  return WHISPER_LANGUAGES[code] ?? code.toUpperCase();
+}
+
+/**
+ * Short description of what a transcript contains, e.g. "Spanish transcript"
+ * or "English translation (from Spanish)".
+ */
+export function getTranscriptLabel({
+  language,
+  task,
+}: {
+  language?: string;
+  task?: TranscriptionTask;
+}): string {
+  if (task === "translate") {
+    return language && language !== "en"
+      ? `English translation (from ${getLanguageLabel(language)})`
+      : "English translation";
+  }
+  return language ? `${getLanguageLabel(language)} transcript` : "Transcript";
+}
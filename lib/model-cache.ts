@@ -0,0 +1,92 @@
+// transformers.js stores every downloaded file in this Cache Storage bucket
+export const TRANSFORMERS_CACHE_NAME = "transformers-cache";
+
+export interface CachedModel {
+  // Repo id for Hub models, otherwise the URL of the model directory
+  id: string;
+  files: number;
+  bytes: number;
+  requests: Request[];
+}
+
+/**
+ * Derives the model a cached file belongs to from its URL:
+ * `https://huggingface.co/<org>/<name>/resolve/<rev>/...` for Hub files,
+ * and the directory above the file (or above `onnx/`) for everything else.
+ */
+function getModelIdFromUrl(url: string): string {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const resolveIndex = segments.indexOf("resolve");
+
+  if (resolveIndex > 0) {
+    const repoPath = segments.slice(0, resolveIndex).join("/");
+    return parsed.hostname === "huggingface.co"
+      ? repoPath
+      : `${parsed.host}/${repoPath}`;
+  }
+
+  const onnxIndex = segments.lastIndexOf("onnx");
+  const directory =
+    onnxIndex > 0 ? segments.slice(0, onnxIndex) : segments.slice(0, -1);
+  return `${parsed.host}/${directory.join("/")}`;
+}
+
+async function getResponseSize(response: Response): Promise<number> {
+  const contentLength = Number(response.headers.get("content-length"));
+  if (Number.isFinite(contentLength) && contentLength > 0) {
+    return contentLength;
+  }
+  return (await response.blob()).size;
+}
+
+export function isModelCacheSupported(): boolean {
+  return typeof window !== "undefined" && "caches" in window;
+}
+
+/**
+ * Lists the models that have files in the browser cache, largest first.
+ */
+export async function listCachedModels(): Promise<CachedModel[]> {
+  if (!isModelCacheSupported()) {
+    return [];
+  }
+
+  const cache = await caches.open(TRANSFORMERS_CACHE_NAME);
+  const requests = await cache.keys();
+  const models = new Map<string, CachedModel>();
+
+  for (const request of requests) {
+    const response = await cache.match(request);
+    if (!response) {
+      continue;
+    }
+
+    const id = getModelIdFromUrl(request.url);
+    const entry = models.get(id) ?? { id, files: 0, bytes: 0, requests: [] };
+    entry.files += 1;
+    entry.bytes += await getResponseSize(response);
+    entry.requests.push(request);
+    models.set(id, entry);
+  }
+
+  return Array.from(models.values()).sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Removes every cached file of a model. A pipeline that is already loaded in
+ * the worker keeps working; the files are downloaded again on the next load.
+ */
+export async function evictCachedModel(model: CachedModel): Promise<void> {
+  const cache = await caches.open(TRANSFORMERS_CACHE_NAME);
+  await Promise.all(model.requests.map((request) => cache.delete(request)));
+}
+
+/**
+ * Whether a cached entry belongs to the given selection id (repo id, local
+ * directory or URL), so the manager can mark the model currently in use.
+ */
+export function isSameCachedModel(cachedId: string, modelId: string): boolean {
+  const normalized = modelId.trim().replace(/^https?:\/\//, "").replace(/\/+$/, "");
+  return cachedId === normalized || cachedId.endsWith(`/${normalized}`);
+}
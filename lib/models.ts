@@ -0,0 +1,83 @@
+/**
+ * Where the worker should fetch model files from:
+ * - "hub": a Hugging Face repo id
+ * - "local": a directory served by this app under `LOCAL_MODEL_PATH`
+ * - "url": any base URL that serves the same file layout as a Hub repo
+ */
+export type ModelSource = "hub" | "local" | "url";
+
+export interface ModelSelection {
+  source: ModelSource;
+  // Repo id, local directory name or base URL depending on `source`
+  id: string;
+}
+
+export interface ModelPreset {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export const LOCAL_MODEL_PATH = "/models/";
+
+export const WHISPER_MODEL_PRESETS: ModelPreset[] = [
+  {
+    id: "onnx-community/whisper-tiny_timestamped",
+    label: "Tiny",
+    description: "39M parameters, fastest, least accurate",
+  },
+  {
+    id: "onnx-community/whisper-base_timestamped",
+    label: "Base",
+    description: "74M parameters, good balance",
+  },
+  {
+    id: "onnx-community/whisper-small_timestamped",
+    label: "Small",
+    description: "244M parameters, most accurate, slow on WASM",
+  },
+];
+
+export const DEFAULT_MODEL: ModelSelection = {
+  source: "hub",
+  id: "onnx-community/whisper-base_timestamped",
+};
+
+/**
+ * Stable string identity for a selection, used to decide whether the worker
+ * has to throw away its pipeline and load a different model.
+ */
+export function getModelKey(model: ModelSelection): string {
+  return `${model.source}:${model.id.trim()}`;
+}
+
+export function describeModel(model: ModelSelection): string {
+  if (model.source === "hub") {
+    const preset = WHISPER_MODEL_PRESETS.find((entry) => entry.id === model.id);
+    return preset ? `Whisper ${preset.label}` : model.id;
+  }
+  if (model.source === "local") {
+    return `Local: ${LOCAL_MODEL_PATH}${model.id}`;
+  }
+  return model.id;
+}
+
+/**
+ * Splits a custom model URL into the host/path prefix and the final directory
+ * name, which is the shape transformers.js expects (`remoteHost` + model id).
+ */
+export function splitModelUrl(url: string): { host: string; name: string } {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const name = segments.pop();
+
+  if (!name) {
+    throw new Error(`Model URL must point to a model directory: ${url}`);
+  }
+
+  parsed.pathname = `/${segments.map((segment) => `${segment}/`).join("")}`;
+  parsed.search = "";
+  parsed.hash = "";
+
+  return { host: parsed.toString(), name };
+}
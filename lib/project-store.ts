@@ -0,0 +1,288 @@
+import type { SubtitleStyle } from "@/components/ui/subtitle-styling";
+import type { AudiogramStyle } from "@/components/ui/audiogram-settings";
+import type { TranscriptionSnapshot } from "@/hooks/useTranscription";
+import type { AudioSelection } from "@/lib/audio-utils";
+import type { PhraseGroupingOptions } from "@/lib/utils";
+
+// Editor state saved with a project, next to the transcript itself
+export interface ProjectSettings {
+  subtitleStyle: SubtitleStyle;
+  mode: "word" | "phrase";
+  grouping: PhraseGroupingOptions;
+  ratio: "16:9" | "9:16";
+  zoomPortrait: boolean;
+  audiogramStyle: AudiogramStyle;
+  // The audio the transcript was made from, reused for export
+  audioSelection: AudioSelection;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  transcription: TranscriptionSnapshot;
+  settings: ProjectSettings;
+  // The source file; the media itself lives in its own store
+  media: { name: string; type: string; size: number };
+}
+
+export type ProjectSummary = Pick<Project, "id" | "name" | "updatedAt" | "media">;
+
+const DATABASE_NAME = "clipmira";
+const DATABASE_VERSION = 1;
+const PROJECT_STORE = "projects";
+// Media blobs keyed by project id, so listing projects never reads video
+const MEDIA_STORE = "media";
+
+// Layout of a .clipmira bundle: magic, version, manifest length (uint32 LE),
+// the manifest JSON, then the source media as is
+const BUNDLE_MAGIC = "CLIPMIRA";
+const BUNDLE_VERSION = 1;
+const BUNDLE_HEADER_BYTES = BUNDLE_MAGIC.length + 8;
+
+export const PROJECT_BUNDLE_EXTENSION = ".clipmira";
+
+interface BundleManifest {
+  project: Omit<Project, "transcription"> & {
+    transcription: Omit<TranscriptionSnapshot, "waveform"> & { waveform: number[] | null };
+  };
+  // Bytes of media after the manifest, 0 when it was not stored
+  mediaBytes: number;
+}
+
+export function isProjectStoreSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(PROJECT_STORE)) {
+          database.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+        }
+        if (!database.objectStoreNames.contains(MEDIA_STORE)) {
+          database.createObjectStore(MEDIA_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const database = await openDatabase();
+  const projects = await promisifyRequest<Project[]>(
+    database.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll()
+  );
+  return projects
+    .map(({ id, name, updatedAt, media }) => ({ id, name, updatedAt, media }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  const database = await openDatabase();
+  return promisifyRequest<Project | undefined>(
+    database.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id)
+  );
+}
+
+export async function saveProject(project: Project): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction(PROJECT_STORE, "readwrite");
+  transaction.objectStore(PROJECT_STORE).put(project);
+  await transactionDone(transaction);
+}
+
+/**
+ * The project's source file, or null when it could not be stored (usually
+ * the storage quota) and has to be re-linked by picking the file again.
+ */
+export async function getProjectMedia(id: string): Promise<File | null> {
+  const database = await openDatabase();
+  const media = await promisifyRequest<File | undefined>(
+    database.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).get(id)
+  );
+  return media ?? null;
+}
+
+/**
+ * Stores the source file next to the project. Returns false instead of
+ * throwing when the browser refuses, so the project itself is still kept.
+ */
+export async function saveProjectMedia(id: string, file: File): Promise<boolean> {
+  try {
+    const database = await openDatabase();
+    const transaction = database.transaction(MEDIA_STORE, "readwrite");
+    transaction.objectStore(MEDIA_STORE).put(file, id);
+    await transactionDone(transaction);
+    return true;
+  } catch (error) {
+    console.warn("Could not store the project media:", error);
+    return false;
+  }
+}
+
+export function createProject(
+  name: string,
+  transcription: TranscriptionSnapshot,
+  settings: ProjectSettings,
+  media: File
+): Project {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    transcription,
+    settings,
+    media: { name: media.name, type: media.type, size: media.size },
+  };
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const project = await getProject(id);
+  if (project) {
+    await saveProject({ ...project, name, updatedAt: Date.now() });
+  }
+}
+
+export async function duplicateProject(id: string): Promise<Project | undefined> {
+  const project = await getProject(id);
+  if (!project) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  const copy: Project = {
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  const media = await getProjectMedia(id);
+  if (media) {
+    await saveProjectMedia(copy.id, media);
+  }
+  return copy;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([PROJECT_STORE, MEDIA_STORE], "readwrite");
+  transaction.objectStore(PROJECT_STORE).delete(id);
+  transaction.objectStore(MEDIA_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Packs a project and its media into one file. The media is appended as a
+ * Blob part, so large videos are never copied into memory.
+ */
+export async function exportProjectBundle(id: string): Promise<Blob> {
+  const project = await getProject(id);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+  const media = await getProjectMedia(id);
+  const { waveform } = project.transcription;
+
+  const manifest: BundleManifest = {
+    project: {
+      ...project,
+      // Typed arrays do not survive JSON
+      transcription: {
+        ...project.transcription,
+        waveform: waveform ? Array.from(waveform) : null,
+      },
+    },
+    mediaBytes: media?.size ?? 0,
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+
+  const header = new Uint8Array(BUNDLE_HEADER_BYTES);
+  header.set(new TextEncoder().encode(BUNDLE_MAGIC));
+  const view = new DataView(header.buffer);
+  view.setUint32(BUNDLE_MAGIC.length, BUNDLE_VERSION, true);
+  view.setUint32(BUNDLE_MAGIC.length + 4, manifestBytes.length, true);
+
+  return new Blob([header, manifestBytes, ...(media ? [media] : [])], {
+    type: "application/octet-stream",
+  });
+}
+
+/**
+ * Reads a .clipmira bundle into a new project (a fresh id, so importing the
+ * same bundle twice keeps both) and returns it.
+ */
+export async function importProjectBundle(file: Blob): Promise<Project> {
+  const header = new DataView(await file.slice(0, BUNDLE_HEADER_BYTES).arrayBuffer());
+  const magic =
+    header.byteLength === BUNDLE_HEADER_BYTES
+      ? new TextDecoder().decode(new Uint8Array(header.buffer, 0, BUNDLE_MAGIC.length))
+      : "";
+  if (magic !== BUNDLE_MAGIC) {
+    throw new Error("This is not a ClipMira project file");
+  }
+  const version = header.getUint32(BUNDLE_MAGIC.length, true);
+  if (version > BUNDLE_VERSION) {
+    throw new Error("This project was saved by a newer version of ClipMira");
+  }
+
+  const manifestEnd = BUNDLE_HEADER_BYTES + header.getUint32(BUNDLE_MAGIC.length + 4, true);
+  const manifest: BundleManifest = JSON.parse(
+    await file.slice(BUNDLE_HEADER_BYTES, manifestEnd).text()
+  );
+  const { waveform } = manifest.project.transcription;
+
+  const now = Date.now();
+  const project: Project = {
+    ...manifest.project,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    transcription: {
+      ...manifest.project.transcription,
+      waveform: waveform ? Float32Array.from(waveform) : null,
+    },
+  };
+  await saveProject(project);
+
+  if (manifest.mediaBytes > 0) {
+    const media = new File(
+      [file.slice(manifestEnd, manifestEnd + manifest.mediaBytes)],
+      project.media.name,
+      { type: project.media.type }
+    );
+    await saveProjectMedia(project.id, media);
+  }
+  return project;
+}
@@ -0,0 +1,76 @@
+import type { SubtitleStyle } from "@/components/ui/subtitle-styling";
+
+/**
+ * Style properties a speaker can override on top of the global subtitle
+ * style. Layout properties stay global so cues keep the same size.
+ */
+export type SpeakerStyleOverride = Partial<
+  Pick<SubtitleStyle, "color" | "borderColor" | "backgroundColor">
+>;
+
+export interface Speaker {
+  // Id assigned by the worker ("S1", "S2", ...), stored on every chunk
+  id: string;
+  name: string;
+  style: SpeakerStyleOverride;
+}
+
+// Caption colors handed out to speakers in the order they are first heard
+export const SPEAKER_COLORS = [
+  "#FFFFFF",
+  "#FFE066",
+  "#66D9FF",
+  "#FF8FA3",
+  "#8CE99A",
+  "#FFA94D",
+  "#B197FC",
+  "#63E6BE",
+];
+
+export function createSpeaker(id: string, index: number): Speaker {
+  return {
+    id,
+    name: `Speaker ${index + 1}`,
+    style: { color: SPEAKER_COLORS[index % SPEAKER_COLORS.length] },
+  };
+}
+
+/**
+ * Adds default entries for speaker ids that are not known yet, keeping the
+ * names and styles the user already set for the others.
+ */
+export function mergeSpeakers(existing: Speaker[], ids: Iterable<string>): Speaker[] {
+  const merged = [...existing];
+  const known = new Set(existing.map((speaker) => speaker.id));
+
+  for (const id of ids) {
+    if (!known.has(id)) {
+      known.add(id);
+      merged.push(createSpeaker(id, merged.length));
+    }
+  }
+
+  return merged.length === existing.length ? existing : merged;
+}
+
+export function getSpeakerName(
+  speakers: Speaker[] | undefined,
+  id: string | undefined
+): string | undefined {
+  if (!id) {
+    return undefined;
+  }
+  return speakers?.find((speaker) => speaker.id === id)?.name.trim() || id;
+}
+
+/**
+ * The subtitle style for a cue, with the speaker's overrides applied.
+ */
+export function resolveSpeakerStyle(
+  style: SubtitleStyle,
+  speakers: Speaker[] | undefined,
+  id: string | undefined
+): SubtitleStyle {
+  const speaker = id ? speakers?.find((entry) => entry.id === id) : undefined;
+  return speaker ? { ...style, ...speaker.style } : style;
+}
@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import {
+  cuesToTranscript,
+  parseAss,
+  parseCsv,
+  parseSbv,
+  parseSrt,
+  parseTranscriptJson,
+  parseTtml,
+  parseVtt,
+  type ImportedCue,
+} from "./subtitle-import";
+
+// Cue timings and text, the way the sidebar would show them
+const summarize = (cues: ImportedCue[]) =>
+  cues.map((cue) => [
+    cue.start,
+    cue.end,
+    cue.segments.flatMap((segment) => segment.words.map((word) => word.text)).join(" "),
+  ]);
+
+describe("parseSrt", () => {
+  it("reads cues with comma or dot timestamps and strips markup", () => {
+    const srt = [
+      "\uFEFF1",
+      "00:00:01,000 --> 00:00:02,500",
+      "<i>Hello</i> &amp; welcome",
+      "",
+      "2",
+      "00:00:03.000 --> 00:00:04.250",
+      "{\\an8}Second line",
+      "continues here",
+      "",
+    ].join("\r\n");
+    expect(summarize(parseSrt(srt))).toEqual([
+      [1, 2.5, "Hello & welcome"],
+      [3, 4.25, "Second line continues here"],
+    ]);
+  });
+
+  it("accepts blocks without a counter and skips ones without timing", () => {
+    const srt = "00:01.000 --> 00:02.000\nNo counter\n\n3\nNot a cue\n";
+    expect(summarize(parseSrt(srt))).toEqual([[1, 2, "No counter"]]);
+  });
+});
+
+describe("parseVtt", () => {
+  it("reads voices, inline timestamps and cue settings", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "NOTE a comment",
+      "",
+      "intro",
+      "00:00:01.000 --> 00:00:03.000 align:start line:10%",
+      "<v Anna>Hello <00:00:02.000>there</v> world",
+    ].join("\n");
+    const [cue] = parseVtt(vtt);
+    expect(cue.settings).toEqual({ align: "start", line: "10%" });
+    expect(cue.segments).toEqual([
+      { start: 1, words: [{ text: "Hello", voice: "Anna" }] },
+      { start: 2, words: [{ text: "there", voice: "Anna" }, { text: "world" }] },
+    ]);
+  });
+
+  it("rejects a file without the WEBVTT header", () => {
+    expect(() => parseVtt("00:01.000 --> 00:02.000\nHi")).toThrow(/WEBVTT header/);
+  });
+});
+
+describe("parseSbv", () => {
+  it("reads YouTube caption blocks", () => {
+    const sbv = "0:00:01.000,0:00:02.000\nFirst cue\n\n0:00:02.500,0:00:04.000\nSecond\ncue\n";
+    expect(summarize(parseSbv(sbv))).toEqual([
+      [1, 2, "First cue"],
+      [2.5, 4, "Second cue"],
+    ]);
+  });
+});
+
+describe("parseAss", () => {
+  it("reads dialogue lines with names, karaoke timing and commas in the text", () => {
+    const ass = [
+      "[Script Info]",
+      "Title: Test",
+      "",
+      "[Events]",
+      "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+      "Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,Later, cue",
+      "Dialogue: 0,0:00:01.00,0:00:02.00,Default,Anna,0,0,0,,{\\k50}Hello{\\k50}\\Nworld",
+    ].join("\n");
+    const cues = parseAss(ass);
+    expect(summarize(cues)).toEqual([
+      [1, 2, "Hello world"],
+      [3, 4, "Later, cue"],
+    ]);
+    expect(cues[0].segments).toEqual([
+      { start: 1, words: [{ text: "Hello", voice: "Anna" }] },
+      { start: 1.5, words: [{ text: "world", voice: "Anna" }] },
+    ]);
+  });
+});
+
+describe("parseTtml", () => {
+  it("reads paragraphs with clock and offset times and named agents", () => {
+    const ttml = `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata">
+  <head><metadata><ttm:agent xml:id="a1"><ttm:name>Anna</ttm:name></ttm:agent></metadata></head>
+  <body><div>
+    <p begin="2s" dur="1.5s">Second<br/>cue</p>
+    <p begin="00:00:00.500" end="00:00:01.000" ttm:agent="a1">First <span>cue</span></p>
+  </div></body>
+</tt>`;
+    const cues = parseTtml(ttml);
+    expect(summarize(cues)).toEqual([
+      [0.5, 1, "First cue"],
+      [2, 3.5, "Second cue"],
+    ]);
+    expect(cues[0].segments[0].words[0]).toEqual({ text: "First", voice: "Anna" });
+  });
+
+  it("rejects a document without a tt root", () => {
+    expect(() => parseTtml("<html/>")).toThrow(/<tt> root/);
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted fields, seconds or timestamps and a speaker column", () => {
+    const csv = 'Start,End,Speaker,Text\n0.5,00:00:01.500,Anna,"Hello, ""you"""\n2,3,,Bye\n';
+    const cues = parseCsv(csv);
+    expect(summarize(cues)).toEqual([
+      [0.5, 1.5, 'Hello, "you"'],
+      [2, 3, "Bye"],
+    ]);
+    expect(cues[0].segments[0].words[0].voice).toBe("Anna");
+  });
+
+  it("needs start, end and text columns", () => {
+    expect(() => parseCsv("Time,Words\n1,Hi\n")).toThrow(/Start, End and Text/);
+  });
+});
+
+describe("cuesToTranscript", () => {
+  it("spreads words over their segment and pins the original cues", () => {
+    const transcript = cuesToTranscript([
+      {
+        start: 0,
+        end: 1,
+        segments: [{ start: 0, words: [{ text: "ab" }, { text: "c" }] }],
+        settings: {},
+      },
+      {
+        start: 2,
+        end: 3,
+        segments: [{ start: 2, words: [{ text: "Hi", voice: "Anna" }] }],
+        settings: {},
+      },
+    ]);
+    expect(transcript.text).toBe("ab c Hi");
+    expect(transcript.chunks).toEqual([
+      { text: " ab", timestamp: [0, 2 / 3], phraseBreak: "force" },
+      { text: " c", timestamp: [2 / 3, 1], phraseBreak: "never" },
+      { text: " Hi", timestamp: [2, 3], speaker: "S1", phraseBreak: "force" },
+    ]);
+    expect(transcript.speakers?.map((speaker) => [speaker.id, speaker.name])).toEqual([
+      ["S1", "Anna"],
+    ]);
+  });
+
+  it("fails on a file without cues", () => {
+    expect(() => cuesToTranscript([])).toThrow(/No subtitle cues/);
+  });
+});
+
+describe("parseTranscriptJson", () => {
+  it("keeps valid chunks with all their fields", () => {
+    const transcript = parseTranscriptJson(
+      JSON.stringify({
+        language: "en",
+        chunks: [
+          { text: " Hi", timestamp: [0, 1], speaker: "S1" },
+          { text: " broken", timestamp: [1, null] },
+        ],
+      })
+    );
+    expect(transcript).toEqual({
+      language: "en",
+      text: "Hi",
+      chunks: [{ text: " Hi", timestamp: [0, 1], speaker: "S1" }],
+    });
+  });
+
+  it("rejects JSON without chunks", () => {
+    expect(() => parseTranscriptJson("{}")).toThrow(/no chunks/);
+  });
+});
@@ -0,0 +1,550 @@
+import type { TranscriptionResult } from "@/hooks/useTranscription";
+import { createSpeaker, type Speaker } from "@/lib/speakers";
+
+type ImportedChunk = TranscriptionResult["chunks"][number];
+
+interface ImportedWord {
+  text: string;
+  // WebVTT voice (`<v Anna>`) the word was spoken in
+  voice?: string;
+}
+
+/**
+ * One cue of an imported subtitle file. `segments` splits the words at
+ * WebVTT inline timestamps; the first segment starts with the cue.
+ */
+export interface ImportedCue {
+  start: number;
+  end: number;
+  segments: Array<{ start: number; words: ImportedWord[] }>;
+  // WebVTT cue settings such as `align` or `line`, as written
+  settings: Record<string, string>;
+}
+
+// [hh:]mm:ss[.,]mmm; SRT uses a comma, WebVTT a dot, and both are seen in the wild
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const TIMING_LINE = new RegExp(
+  `^\\s*(${TIMESTAMP.source})\\s*-->\\s*(${TIMESTAMP.source})(.*)$`
+);
+
+function parseTimestamp(value: string): number {
+  const match = value.match(TIMESTAMP);
+  if (!match) {
+    return NaN;
+  }
+  const [, hours = "0", minutes, seconds, fraction] = match;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, "0")) / 1000
+  );
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  lrm: "‎",
+  rlm: "‏",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith("#")) {
+      return String.fromCodePoint(Number(name.slice(1)));
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Blocks separated by blank lines, without BOM or Windows line endings
+function splitBlocks(text: string): string[][] {
+  return text
+    .replace(/^﻿/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+    .filter((lines) => lines.length > 0);
+}
+
+/**
+ * Splits WebVTT cue text into words at inline timestamps (`<00:01.500>`),
+ * tagging them with their voice (`<v Anna>`) and dropping all other markup.
+ */
+function parseCueText(text: string, start: number): ImportedCue["segments"] {
+  const segments: ImportedCue["segments"] = [{ start, words: [] }];
+  let voice: string | undefined;
+
+  for (const part of text.split(/(<[^>]*>)/)) {
+    const tag = part.match(/^<([^>]*)>$/)?.[1];
+    if (tag === undefined) {
+      const words = decodeEntities(part).split(/\s+/).filter(Boolean);
+      segments[segments.length - 1].words.push(
+        ...words.map((word) => ({ text: word, ...(voice && { voice }) }))
+      );
+      continue;
+    }
+
+    const voiceName = tag.match(/^v(?:\.\S*)?\s+(.+)$/)?.[1];
+    const timestamp = parseTimestamp(tag);
+    if (voiceName !== undefined) {
+      voice = decodeEntities(voiceName.trim());
+    } else if (tag === "/v") {
+      voice = undefined;
+    } else if (!Number.isNaN(timestamp)) {
+      segments.push({ start: timestamp, words: [] });
+    }
+  }
+
+  return segments.filter((segment) => segment.words.length > 0);
+}
+
+function splitWords(text: string): ImportedWord[] {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ({ text: word }));
+}
+
+export function parseSrt(text: string): ImportedCue[] {
+  const cues: ImportedCue[] = [];
+
+  for (const lines of splitBlocks(text)) {
+    // The counter line is optional in practice
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex < 0) {
+      continue;
+    }
+    const timing = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimestamp(timing[1]);
+    const end = parseTimestamp(timing[6]);
+    const body = lines
+      .slice(timingIndex + 1)
+      .join(" ")
+      // ASS override blocks ({\an8}) that some SRT files carry
+      .replace(/\{\\[^}]*\}/g, "")
+      .replace(/<[^>]*>/g, "");
+
+    const words = splitWords(decodeEntities(body));
+    if (words.length > 0) {
+      cues.push({ start, end, segments: [{ start, words }], settings: {} });
+    }
+  }
+
+  return cues;
+}
+
+export function parseVtt(text: string): ImportedCue[] {
+  const blocks = splitBlocks(text);
+  if (!blocks[0]?.[0]?.startsWith("WEBVTT")) {
+    throw new Error("Not a WebVTT file: the WEBVTT header is missing");
+  }
+
+  const cues: ImportedCue[] = [];
+  for (const lines of blocks.slice(1)) {
+    // NOTE, STYLE and REGION blocks have no timing line and are skipped
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex < 0 || timingIndex > 1) {
+      continue;
+    }
+    const timing = lines[timingIndex].match(TIMING_LINE)!;
+    const start = parseTimestamp(timing[1]);
+    const end = parseTimestamp(timing[6]);
+    const settings = Object.fromEntries(
+      timing[11]
+        .trim()
+        .split(/\s+/)
+        .filter((setting) => setting.includes(":"))
+        .map((setting) => {
+          const separator = setting.indexOf(":");
+          return [setting.slice(0, separator), setting.slice(separator + 1)];
+        })
+    );
+
+    const segments = parseCueText(lines.slice(timingIndex + 1).join(" "), start);
+    if (segments.length > 0) {
+      cues.push({ start, end, segments, settings });
+    }
+  }
+
+  return cues;
+}
+
+// SBV timing lines: H:MM:SS.mmm,H:MM:SS.mmm
+const SBV_TIMING_LINE = new RegExp(`^\\s*(${TIMESTAMP.source})\\s*,\\s*(${TIMESTAMP.source})\\s*$`);
+
+export function parseSbv(text: string): ImportedCue[] {
+  const cues: ImportedCue[] = [];
+
+  for (const lines of splitBlocks(text)) {
+    const timing = lines[0].match(SBV_TIMING_LINE);
+    if (!timing) {
+      continue;
+    }
+    const words = splitWords(lines.slice(1).join(" "));
+    if (words.length > 0) {
+      cues.push({
+        start: parseTimestamp(timing[1]),
+        end: parseTimestamp(timing[6]),
+        segments: [{ start: parseTimestamp(timing[1]), words }],
+        settings: {},
+      });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Reads the `Dialogue` lines of an ASS/SSA script. Karaoke tags (`\k`, `\kf`,
+ * `\ko`) split the words into timed segments, the Name field becomes the
+ * voice, and all other override tags are dropped.
+ */
+export function parseAss(text: string): ImportedCue[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n?|\n/);
+  const cues: ImportedCue[] = [];
+  // Columns of the [Events] section; SSA and ASS both end with Text
+  let columns = ["layer", "start", "end", "style", "name", "marginl", "marginr", "marginv", "effect", "text"];
+  let inEvents = false;
+
+  for (const line of lines) {
+    const section = line.match(/^\s*\[(.+)\]\s*$/)?.[1];
+    if (section !== undefined) {
+      inEvents = section.toLowerCase() === "events";
+      continue;
+    }
+    if (!inEvents) {
+      continue;
+    }
+
+    const entry = line.match(/^\s*(\w+)\s*:\s?(.*)$/);
+    if (entry?.[1] === "Format") {
+      columns = entry[2].split(",").map((column) => column.trim().toLowerCase());
+      continue;
+    }
+    if (entry?.[1] !== "Dialogue") {
+      continue;
+    }
+
+    // The text is the last column and may itself contain commas
+    const fields = entry[2].split(",");
+    const values = [
+      ...fields.slice(0, columns.length - 1),
+      fields.slice(columns.length - 1).join(","),
+    ].map((value) => value.trim());
+    const field = (name: string) => values[columns.indexOf(name)] ?? "";
+
+    const start = parseAssTimestamp(field("start"));
+    const end = parseAssTimestamp(field("end"));
+    const voice = field("name") || undefined;
+    const segments: ImportedCue["segments"] = [{ start, words: [] }];
+    let cursor = start;
+
+    for (const part of field("text").split(/(\{[^}]*\})/)) {
+      if (part.startsWith("{")) {
+        for (const karaoke of part.matchAll(/\\(?:k[fo]?|K)(\d+)/g)) {
+          segments.push({ start: cursor, words: [] });
+          cursor += Number(karaoke[1]) / 100;
+        }
+        continue;
+      }
+      const words = part.replace(/\\[Nnh]/g, " ").split(/\s+/).filter(Boolean);
+      segments[segments.length - 1].words.push(
+        ...words.map((word) => ({ text: word, ...(voice && { voice }) }))
+      );
+    }
+
+    const timedSegments = segments.filter((segment) => segment.words.length > 0);
+    if (timedSegments.length > 0 && !Number.isNaN(start) && !Number.isNaN(end)) {
+      cues.push({ start, end, segments: timedSegments, settings: {} });
+    }
+  }
+
+  // Scripts are not required to list events in time order
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+// H:MM:SS.CC, ASS and SSA timing
+function parseAssTimestamp(value: string): number {
+  const match = value.match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    return NaN;
+  }
+  const [, hours, minutes, seconds, fraction = "0"] = match;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(`0.${fraction}`)
+  );
+}
+
+/**
+ * Reads a TTML/DFXP document: every `<p>` with a time becomes a cue, and
+ * `ttm:agent` references become voices, named by their `ttm:name` when the
+ * head declares one. Needs `DOMParser`, so it only runs in the browser.
+ */
+export function parseTtml(text: string): ImportedCue[] {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  const root = document.documentElement;
+  if (root.localName !== "tt") {
+    throw new Error("Not a TTML file: the <tt> root element is missing");
+  }
+
+  const getAttribute = (element: Element, name: string): string | null => {
+    const attribute = [...element.attributes].find((entry) => entry.localName === name);
+    return attribute?.value ?? null;
+  };
+  const frameRate = Number(getAttribute(root, "frameRate")) || 30;
+  const tickRate = Number(getAttribute(root, "tickRate")) || 1;
+
+  const parseTime = (value: string | null): number => {
+    if (!value) {
+      return NaN;
+    }
+    const clock = value.trim().match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+(?:\.\d+)?))?$/);
+    if (clock) {
+      const [, hours, minutes, seconds, fraction, frames] = clock;
+      return (
+        Number(hours) * 3600 +
+        Number(minutes) * 60 +
+        Number(seconds) +
+        (fraction ? Number(`0.${fraction}`) : 0) +
+        (frames ? Number(frames) / frameRate : 0)
+      );
+    }
+    const offset = value.trim().match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+    if (!offset) {
+      return NaN;
+    }
+    const amount = Number(offset[1]);
+    const unitSeconds: Record<string, number> = {
+      h: 3600,
+      m: 60,
+      s: 1,
+      ms: 0.001,
+      f: 1 / frameRate,
+      t: 1 / tickRate,
+    };
+    return amount * unitSeconds[offset[2]];
+  };
+
+  const agentNames = new Map<string, string>();
+  for (const agent of root.getElementsByTagNameNS("*", "agent")) {
+    const id = getAttribute(agent, "id");
+    const name = agent.getElementsByTagNameNS("*", "name")[0]?.textContent?.trim();
+    if (id) {
+      agentNames.set(id, name || id);
+    }
+  }
+
+  // Text of a paragraph, with <br/> as a word break
+  const collectText = (node: Node): string =>
+    [...node.childNodes]
+      .map((child) => {
+        if (child.nodeType === child.TEXT_NODE) {
+          return child.textContent ?? "";
+        }
+        if (child.nodeType === child.ELEMENT_NODE) {
+          return (child as Element).localName === "br" ? " " : collectText(child);
+        }
+        return "";
+      })
+      .join("");
+
+  const cues: ImportedCue[] = [];
+  for (const paragraph of root.getElementsByTagNameNS("*", "p")) {
+    const start = parseTime(getAttribute(paragraph, "begin"));
+    const end = getAttribute(paragraph, "end")
+      ? parseTime(getAttribute(paragraph, "end"))
+      : start + parseTime(getAttribute(paragraph, "dur"));
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      continue;
+    }
+
+    const agent = getAttribute(paragraph, "agent")?.split(/\s+/)[0];
+    const voice = agent ? agentNames.get(agent) ?? agent : undefined;
+    const words = splitWords(collectText(paragraph)).map((word) => ({
+      ...word,
+      ...(voice && { voice }),
+    }));
+    if (words.length > 0) {
+      cues.push({ start, end, segments: [{ start, words }], settings: {} });
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+// RFC 4180 rows: quoted fields may hold commas, quotes ("") and newlines
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((entry) => entry.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Reads a spreadsheet export with a header row naming Start, End and Text
+ * columns (and optionally Speaker). Times may be timestamps or seconds.
+ */
+export function parseCsv(text: string): ImportedCue[] {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  const startColumn = columns.findIndex((column) => column === "start" || column === "begin");
+  const endColumn = columns.indexOf("end");
+  const textColumn = columns.findIndex((column) => column === "text" || column === "subtitle");
+  const speakerColumn = columns.indexOf("speaker");
+  if (startColumn < 0 || endColumn < 0 || textColumn < 0) {
+    throw new Error("The CSV needs Start, End and Text columns");
+  }
+
+  const parseTime = (value: string = ""): number =>
+    /^\s*\d+(\.\d+)?\s*$/.test(value) ? Number(value) : parseTimestamp(value);
+
+  const cues: ImportedCue[] = [];
+  for (const row of rows) {
+    const start = parseTime(row[startColumn]);
+    const end = parseTime(row[endColumn]);
+    const voice = row[speakerColumn]?.trim() || undefined;
+    const words = splitWords(row[textColumn] ?? "").map((word) => ({
+      ...word,
+      ...(voice && { voice }),
+    }));
+    if (words.length > 0 && !Number.isNaN(start) && !Number.isNaN(end)) {
+      cues.push({ start, end, segments: [{ start, words }], settings: {} });
+    }
+  }
+
+  return cues;
+}
+
+/**
+ * Turns cues into word chunks. Words share their segment's time in
+ * proportion to their length, and phrase breaks are pinned so phrase mode
+ * shows exactly the original cues.
+ */
+export function cuesToTranscript(cues: ImportedCue[]): TranscriptionResult {
+  const voices = new Map<string, Speaker>();
+  const chunks: ImportedChunk[] = [];
+
+  // Every voice name becomes a speaker, numbered in order of appearance
+  const getVoiceSpeaker = (voice: string): string => {
+    let speaker = voices.get(voice);
+    if (!speaker) {
+      speaker = { ...createSpeaker(`S${voices.size + 1}`, voices.size), name: voice };
+      voices.set(voice, speaker);
+    }
+    return speaker.id;
+  };
+
+  for (const cue of cues) {
+    cue.segments.forEach((segment, segmentIndex) => {
+      const segmentEnd = Math.max(
+        segment.start,
+        cue.segments[segmentIndex + 1]?.start ?? cue.end
+      );
+      const { words } = segment;
+      const totalLength = words.reduce((sum, word) => sum + word.text.length, 0);
+
+      let position = segment.start;
+      words.forEach((word, wordIndex) => {
+        const duration = ((segmentEnd - segment.start) * word.text.length) / totalLength;
+        const speaker = word.voice ? getVoiceSpeaker(word.voice) : undefined;
+        chunks.push({
+          text: ` ${word.text}`,
+          timestamp: [position, position + duration],
+          ...(speaker && { speaker }),
+          phraseBreak: segmentIndex === 0 && wordIndex === 0 ? "force" : "never",
+        });
+        position += duration;
+      });
+    });
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("No subtitle cues found in this file");
+  }
+
+  return {
+    text: chunks.map((chunk) => chunk.text).join("").trim(),
+    chunks,
+    ...(voices.size > 0 && { speakers: [...voices.values()] }),
+  };
+}
+
+function isTimestampPair(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((time) => typeof time === "number" && Number.isFinite(time))
+  );
+}
+
+/**
+ * Reads the JSON the transcript sidebar exports. Chunks keep every field
+ * they were saved with; ones without text or a valid timestamp are dropped.
+ */
+export function parseTranscriptJson(text: string): TranscriptionResult {
+  const data = JSON.parse(text);
+  if (!data || !Array.isArray(data.chunks)) {
+    throw new Error("Not a transcript: the JSON has no chunks");
+  }
+
+  const chunks: ImportedChunk[] = data.chunks.filter(
+    (chunk: Partial<ImportedChunk> | null) =>
+      typeof chunk?.text === "string" && isTimestampPair(chunk.timestamp)
+  );
+  if (chunks.length === 0) {
+    throw new Error("No subtitle cues found in this file");
+  }
+
+  return {
+    ...data,
+    text: chunks.map((chunk) => chunk.text).join("").trim(),
+    chunks,
+  };
+}
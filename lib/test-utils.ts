@@ -0,0 +1,31 @@
+import type { PhraseBreak } from "@/lib/transcript-editing";
+import { DEFAULT_PHRASE_GROUPING, processTranscriptChunks } from "@/lib/utils";
+
+/**
+ * A word chunk as Whisper produces it, with the fields edits add later.
+ * Shared by the tests; not used by the app.
+ */
+export interface TestWord {
+  text: string;
+  timestamp: [number, number];
+  disabled?: boolean;
+  speaker?: string;
+  phraseBreak?: PhraseBreak;
+  probability?: number;
+}
+
+// Whisper word chunks carry a leading space
+export const word = (
+  text: string,
+  start: number,
+  end: number,
+  extra: Partial<TestWord> = {}
+): TestWord => ({
+  text: ` ${text}`,
+  timestamp: [start, end],
+  ...extra,
+});
+
+// The cues phrase mode shows for `chunks`
+export const cueTexts = (chunks: TestWord[], grouping = DEFAULT_PHRASE_GROUPING) =>
+  processTranscriptChunks({ chunks }, "phrase", grouping).map((cue) => cue.text);
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { cueTexts, word, type TestWord } from "./test-utils";
+import {
+  applyPhraseEdit,
+  mergePhrases,
+  pinPhrase,
+  retimeCue,
+  splitPhrase,
+} from "./transcript-editing";
+
+// Two cues that automatic grouping would join, kept apart by a forced break
+const twoCues = () => [
+  word("Hello", 0, 0.5),
+  word("there", 0.5, 1),
+  word("world", 1, 1.5),
+  word("second", 1.6, 2, { phraseBreak: "force" }),
+  word("cue", 2, 2.4),
+  word("here", 2.4, 2.8),
+];
+
+// Cues as imported from a subtitle file: each pinned from its first word on
+const importedCues = () => [
+  word("Hi", 0, 0.5, { phraseBreak: "force" }),
+  word("all", 0.5, 1, { phraseBreak: "never" }),
+  ...["one", "two", "three", "four", "five", "six"].map((text, i) =>
+    word(text, 1 + i * 0.4, 1.4 + i * 0.4, { phraseBreak: i === 0 ? "force" : "never" })
+  ),
+];
+
+describe("applyPhraseEdit", () => {
+  it("keeps the timing of surviving words and interpolates new ones", () => {
+    const edited = applyPhraseEdit(
+      [word("Hello", 0, 0.5, { probability: 0.3 }), word("world", 1, 1.5)],
+      [0, 1],
+      "Hello big world"
+    );
+    expect(edited.map((chunk) => chunk.text)).toEqual([" Hello", " big", " world"]);
+    expect(edited.map((chunk) => chunk.timestamp)).toEqual([
+      [0, 0.5],
+      [0.5, 1],
+      [1, 1.5],
+    ]);
+    // Unchanged words keep their confidence, typed ones count as reviewed
+    expect(edited[0].probability).toBe(0.3);
+    expect(edited[1].probability).toBeUndefined();
+  });
+
+  it("hands a deleted first word's break to the new first word", () => {
+    const edited = applyPhraseEdit(twoCues(), [3, 4, 5], "cue here");
+    expect(edited[3].phraseBreak).toBe("force");
+    expect(cueTexts(edited)).toEqual(["Hello there world", "cue here"]);
+  });
+
+  it("keeps a word added in front inside its own cue", () => {
+    const edited = applyPhraseEdit(twoCues(), [3, 4, 5], "Oh second cue here");
+    expect(edited[3].phraseBreak).toBe("force");
+    expect(edited[4].phraseBreak).toBeUndefined();
+    expect(cueTexts(edited)).toEqual(["Hello there world", "Oh second cue here"]);
+  });
+
+  it("keeps the break of a replaced first word", () => {
+    const edited = applyPhraseEdit(twoCues(), [3, 4, 5], "Another cue here");
+    expect(edited[3].phraseBreak).toBe("force");
+    expect(cueTexts(edited)).toEqual(["Hello there world", "Another cue here"]);
+  });
+
+  it("pins words added inside an imported cue to it", () => {
+    const edited = applyPhraseEdit(
+      importedCues(),
+      [2, 3, 4, 5, 6, 7],
+      "one two three and four five six"
+    );
+    expect(edited[5].phraseBreak).toBe("never");
+    expect(cueTexts(edited)).toEqual(["Hi all", "one two three and four five six"]);
+  });
+
+  it("pins the old first word of an imported cue after words added in front", () => {
+    const edited = applyPhraseEdit(importedCues(), [0, 1], "Well hi all");
+    expect(edited.slice(0, 3).map((chunk) => chunk.phraseBreak)).toEqual([
+      "force",
+      "never",
+      "never",
+    ]);
+    expect(cueTexts(edited)).toEqual(["Well hi all", "one two three four five six"]);
+  });
+});
+
+describe("splitPhrase", () => {
+  it("splits at a word boundary and pins the following cue", () => {
+    const chunks = twoCues().map((chunk): TestWord => ({ ...chunk, phraseBreak: undefined }));
+    const split = splitPhrase(chunks, [0, 1, 2, 3, 4, 5], "Hello there ".length);
+    expect(split[2].phraseBreak).toBe("force");
+    expect(split[3].phraseBreak).toBeUndefined();
+    expect(cueTexts(split)).toEqual(["Hello there", "world second cue here"]);
+  });
+
+  it("splits inside a word", () => {
+    const split = splitPhrase(twoCues(), [0, 1, 2], "Hello th".length);
+    expect(split.map((chunk) => chunk.text.trim()).slice(0, 4)).toEqual([
+      "Hello",
+      "th",
+      "ere",
+      "world",
+    ]);
+    expect(cueTexts(split)).toEqual(["Hello th", "ere world", "second cue here"]);
+  });
+
+  it("does nothing at the start of the cue", () => {
+    const chunks = twoCues();
+    expect(splitPhrase(chunks, [0, 1, 2], 0)).toBe(chunks);
+  });
+});
+
+describe("mergePhrases", () => {
+  it("joins a cue onto the one before it", () => {
+    const merged = mergePhrases(twoCues(), [3, 4, 5]);
+    expect(cueTexts(merged)).toEqual(["Hello there world second cue here"]);
+  });
+});
+
+describe("pinPhrase", () => {
+  it("pins a cue's words and starts the next cue after it", () => {
+    const pinned = pinPhrase(twoCues(), [1, 2]);
+    expect(pinned.map((chunk) => chunk.phraseBreak)).toEqual([
+      undefined,
+      "force",
+      "never",
+      "force",
+      undefined,
+      undefined,
+    ]);
+    expect(cueTexts(pinned)).toEqual(["Hello", "there world", "second cue here"]);
+  });
+});
+
+describe("retimeCue", () => {
+  describe("dragged on the timeline and pinned", () => {
+    const sentence = () => [
+      word("one", 0, 0.4),
+      word("two", 0.4, 0.8),
+      word("three", 0.8, 1.2),
+      word("four", 5, 5.5),
+    ];
+
+    it("keeps a cue apart when moved next to its neighbour", () => {
+      expect(cueTexts(retimeCue(sentence(), [3], [1.4, 1.8]))).toEqual(["one two three four"]);
+      const dragged = pinPhrase(retimeCue(sentence(), [3], [1.4, 1.8]), [3]);
+      expect(cueTexts(dragged)).toEqual(["one two three", "four"]);
+    });
+
+    it("keeps a cue whole when stretched past the longest phrase", () => {
+      expect(cueTexts(retimeCue(sentence(), [0, 1, 2], [0, 4]))).toEqual([
+        "one two",
+        "three",
+        "four",
+      ]);
+      const dragged = pinPhrase(retimeCue(sentence(), [0, 1, 2], [0, 4]), [0, 1, 2]);
+      expect(cueTexts(dragged)).toEqual(["one two three", "four"]);
+    });
+  });
+
+  const chunks = [word("Hello", 0, 0.5), word("there", 1, 1.5), word("world", 1.5, 2)];
+
+  it("moves a cue and stretches its words to the new span", () => {
+    const retimed = retimeCue(chunks, [1, 2], [2, 4]);
+    expect(retimed.map((chunk) => chunk.timestamp)).toEqual([
+      [0, 0.5],
+      [2, 3],
+      [3, 4],
+    ]);
+  });
+
+  it("keeps gaps between words in proportion", () => {
+    const retimed = retimeCue(chunks, [0, 1], [0, 3]);
+    expect(retimed[0].timestamp).toEqual([0, 1]);
+    expect(retimed[1].timestamp).toEqual([2, 3]);
+  });
+
+  it("spreads the words of a zero-length cue evenly", () => {
+    const collapsed = [word("a", 1, 1), word("b", 1, 1)];
+    expect(retimeCue(collapsed, [0, 1], [1, 2]).map((chunk) => chunk.timestamp)).toEqual([
+      [1, 1.5],
+      [1.5, 2],
+    ]);
+  });
+
+  it("leaves the chunks alone without any indices", () => {
+    expect(retimeCue(chunks, [], [5, 6])).toBe(chunks);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Manual phrase boundary on a word chunk, set by splitting and merging cues:
+ * "force" always starts a new phrase at this word, "never" keeps it in the
+ * phrase of the word before, whatever the automatic grouping rules say.
+ */
+export type PhraseBreak = "force" | "never";
+
+interface EditableChunk {
+  text: string;
+  timestamp: [number, number];
+  phraseBreak?: PhraseBreak;
+  // Decoder confidence, only meaningful for the text Whisper produced
+  probability?: number;
+}
+
+// Comparison key for aligning words; casing and punctuation edits still count
+// as the same word so it keeps its timing
+function normalizeWord(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Pairs of (old index, new index) for the longest common subsequence of the
+ * two word lists, in order.
+ */
+function alignWords(oldWords: string[], newWords: string[]): Array<[number, number]> {
+  const rows = oldWords.length + 1;
+  const cols = newWords.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = oldWords.length - 1; i >= 0; i--) {
+    for (let j = newWords.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        oldWords[i] === newWords[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldWords.length && j < newWords.length) {
+    if (oldWords[i] === newWords[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Rewrites the word chunks at `indices` (positions in `chunks`, in order) so
+ * they read `text`. Words that survive the edit keep their timestamps and
+ * other fields, new words get timings interpolated between their neighbours,
+ * and removed words are dropped. Whichever word leads the phrase afterwards
+ * takes over the original first word's phrase break, so the phrase keeps its
+ * boundaries.
+ */
+export function applyPhraseEdit<T extends EditableChunk>(
+  chunks: T[],
+  indices: number[],
+  text: string
+): T[] {
+  if (indices.length === 0) {
+    return chunks;
+  }
+
+  const oldChunks = indices.map((index) => chunks[index]);
+  const newWords = text.split(/\s+/).filter(Boolean);
+  const pairs = alignWords(
+    oldChunks.map((chunk) => normalizeWord(chunk.text)),
+    newWords.map(normalizeWord)
+  );
+
+  const phraseStart = oldChunks[0].timestamp[0];
+  const phraseEnd = oldChunks[oldChunks.length - 1].timestamp[1];
+  // Whisper word chunks carry their leading space; keep that convention
+  const prefix = /^\s/.test(oldChunks[0].text) ? " " : "";
+  const firstBreak = oldChunks[0].phraseBreak;
+  // Words of a phrase pinned together (imported or merged) stay pinned
+  const innerBreak: PhraseBreak | undefined = oldChunks
+    .slice(1)
+    .some((chunk) => chunk.phraseBreak === "never")
+    ? "never"
+    : undefined;
+  const edited: T[] = [];
+
+  // Matched words anchor the timeline; each run of new words between two
+  // anchors shares the time left between them
+  const anchors: Array<[number, number]> = [...pairs, [oldChunks.length, newWords.length]];
+  let previousOld = -1;
+  let previousNew = -1;
+  let nextStartOverride: number | null = null;
+
+  for (const [oldIndex, newIndex] of anchors) {
+    const inserted = newWords.slice(previousNew + 1, newIndex);
+
+    if (inserted.length > 0) {
+      const gapStart =
+        previousOld >= 0 ? oldChunks[previousOld].timestamp[1] : phraseStart;
+      const gapEnd =
+        oldIndex < oldChunks.length ? oldChunks[oldIndex].timestamp[0] : phraseEnd;
+      // Replaced words hand their own span to the new ones
+      const replaced = oldChunks.slice(previousOld + 1, oldIndex);
+      let spanStart = replaced.length > 0 ? replaced[0].timestamp[0] : gapStart;
+      let spanEnd =
+        replaced.length > 0 ? replaced[replaced.length - 1].timestamp[1] : gapEnd;
+      const template = replaced[0] ?? oldChunks[Math.max(0, previousOld)];
+
+      // Words squeezed in without any room borrow half of a neighbour's span
+      if (spanEnd <= spanStart) {
+        const previous = edited[edited.length - 1];
+        if (previous) {
+          const [previousStart, previousEnd] = previous.timestamp;
+          spanStart = (previousStart + previousEnd) / 2;
+          edited[edited.length - 1] = { ...previous, timestamp: [previousStart, spanStart] };
+        } else if (oldIndex < oldChunks.length) {
+          const [nextStart, nextEnd] = oldChunks[oldIndex].timestamp;
+          spanEnd = (nextStart + nextEnd) / 2;
+          nextStartOverride = spanEnd;
+        }
+      }
+
+      const step = Math.max(0, spanEnd - spanStart) / inserted.length;
+      inserted.forEach((word, offset) => {
+        const chunk: T = {
+          ...template,
+          text: `${prefix}${word}`,
+          timestamp: [spanStart + step * offset, spanStart + step * (offset + 1)],
+        };
+        // Only a word taking over the replaced word's place keeps its boundary
+        edited.push(
+          markReviewed(
+            offset === 0 && template === replaced[0] ? chunk : setPhraseBreak(chunk, innerBreak)
+          )
+        );
+      });
+    }
+
+    if (oldIndex < oldChunks.length) {
+      const chunk = oldChunks[oldIndex];
+      const leading = chunk.text.match(/^\s*/)?.[0] ?? "";
+      let updated: T = {
+        ...chunk,
+        text: `${leading}${newWords[newIndex]}`,
+        ...(nextStartOverride !== null && {
+          timestamp: [nextStartOverride, chunk.timestamp[1]],
+        }),
+      };
+      // The old first word now follows words added in front of it
+      if (oldIndex === 0 && edited.length > 0) {
+        updated = setPhraseBreak(updated, innerBreak);
+      }
+      edited.push(updated.text === chunk.text ? updated : markReviewed(updated));
+      nextStartOverride = null;
+    }
+
+    previousOld = oldIndex;
+    previousNew = newIndex;
+  }
+
+  if (edited.length > 0) {
+    edited[0] = setPhraseBreak(edited[0], firstBreak);
+  }
+
+  const first = indices[0];
+  const last = indices[indices.length - 1];
+  const replacedIndices = new Set(indices);
+  // Chunks between the phrase words that were not part of it (empty text)
+  // stay where they are, after the edited words
+  const untouched = chunks
+    .slice(first, last + 1)
+    .filter((_, offset) => !replacedIndices.has(first + offset));
+
+  return [...chunks.slice(0, first), ...edited, ...untouched, ...chunks.slice(last + 1)];
+}
+
+/**
+ * Moves and stretches the word chunks at `indices` so that together they span
+ * `[start, end]`, keeping each word's relative position inside the cue.
+ */
+export function retimeCue<T extends EditableChunk>(
+  chunks: T[],
+  indices: number[],
+  [start, end]: [number, number]
+): T[] {
+  if (indices.length === 0) {
+    return chunks;
+  }
+
+  const oldStart = Math.min(...indices.map((index) => chunks[index].timestamp[0]));
+  const oldEnd = Math.max(...indices.map((index) => chunks[index].timestamp[1]));
+  const oldDuration = oldEnd - oldStart;
+  const scale = oldDuration > 0 ? (end - start) / oldDuration : 0;
+  const mapTime = (time: number) =>
+    oldDuration > 0 ? start + (time - oldStart) * scale : start;
+
+  const retimed = [...chunks];
+  indices.forEach((index, position) => {
+    const chunk = chunks[index];
+    // A zero-length cue has nothing to scale; spread its words evenly
+    const timestamp: [number, number] =
+      oldDuration > 0
+        ? [mapTime(chunk.timestamp[0]), mapTime(chunk.timestamp[1])]
+        : [
+            start + ((end - start) * position) / indices.length,
+            start + ((end - start) * (position + 1)) / indices.length,
+          ];
+    retimed[index] = { ...chunk, timestamp };
+  });
+  return retimed;
+}
+
+/**
+ * Splits one chunk in two at a character offset of its text, dividing its
+ * time range by the number of characters on each side.
+ */
+export function splitChunk<T extends EditableChunk>(
+  chunks: T[],
+  index: number,
+  offset: number
+): T[] {
+  const chunk = chunks[index];
+  const before = chunk.text.slice(0, offset).trimEnd();
+  const after = chunk.text.slice(offset).trimStart();
+  if (!before.trim() || !after) {
+    return chunks;
+  }
+
+  const [start, end] = chunk.timestamp;
+  const ratio = before.trim().length / (before.trim().length + after.length);
+  const middle = start + (end - start) * ratio;
+  const prefix = /^\s/.test(chunk.text) ? " " : "";
+
+  return [
+    ...chunks.slice(0, index),
+    { ...chunk, text: before, timestamp: [start, middle] },
+    // The second half starts mid-phrase, so it does not inherit a boundary
+    setPhraseBreak({ ...chunk, text: `${prefix}${after}`, timestamp: [middle, end] }),
+    ...chunks.slice(index + 1),
+  ];
+}
+
+export function setPhraseBreak<T extends EditableChunk>(chunk: T, phraseBreak?: PhraseBreak): T {
+  const updated = { ...chunk, phraseBreak };
+  if (!phraseBreak) {
+    delete updated.phraseBreak;
+  }
+  return updated;
+}
+
+// A word the user typed themselves no longer needs proofreading
+export function markReviewed<T extends EditableChunk>(chunk: T): T {
+  const reviewed = { ...chunk };
+  delete reviewed.probability;
+  return reviewed;
+}
+
+// Next chunk after `index` with any text, where the following phrase starts
+function findNextWord(chunks: EditableChunk[], index: number): number {
+  for (let next = index + 1; next < chunks.length; next++) {
+    if (chunks[next].text.trim()) {
+      return next;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Splits a phrase at a character offset of its displayed text (its words
+ * joined by single spaces). An offset inside a word splits that word too.
+ * The first word after the phrase is pinned as a phrase start as well, so the
+ * shorter second half does not pull in words from the next phrase.
+ */
+export function splitPhrase<T extends EditableChunk>(
+  chunks: T[],
+  indices: number[],
+  offset: number
+): T[] {
+  let position = 0;
+  let breakAt = -1;
+  let updated = chunks;
+  let lastIndex = indices[indices.length - 1];
+
+  for (let k = 0; k < indices.length; k++) {
+    const text = chunks[indices[k]].text;
+    const word = text.trim();
+    const wordEnd = position + word.length;
+
+    if (offset <= position) {
+      breakAt = indices[k];
+      break;
+    }
+    if (offset < wordEnd) {
+      const leading = text.length - text.trimStart().length;
+      updated = splitChunk(chunks, indices[k], leading + offset - position);
+      if (updated === chunks) {
+        return chunks;
+      }
+      breakAt = indices[k] + 1;
+      lastIndex += 1;
+      break;
+    }
+    position = wordEnd + 1;
+  }
+
+  if (breakAt <= indices[0]) {
+    return chunks;
+  }
+
+  const result = [...updated];
+  result[breakAt] = setPhraseBreak(result[breakAt], "force");
+  const nextPhrase = findNextWord(result, lastIndex);
+  if (nextPhrase >= 0) {
+    result[nextPhrase] = setPhraseBreak(result[nextPhrase], "force");
+  }
+  return result;
+}
+
+/**
+ * Joins two adjacent chunks into one, e.g. merging two words in word mode.
+ */
+export function mergeChunks<T extends EditableChunk>(
+  chunks: T[],
+  index: number,
+  nextIndex: number
+): T[] {
+  const first = chunks[index];
+  const second = chunks[nextIndex];
+  if (!first || !second) {
+    return chunks;
+  }
+
+  const merged: T = {
+    ...first,
+    text: `${first.text.trimEnd()} ${second.text.trim()}`,
+    timestamp: [
+      Math.min(first.timestamp[0], second.timestamp[0]),
+      Math.max(first.timestamp[1], second.timestamp[1]),
+    ],
+  };
+
+  return [
+    ...chunks.slice(0, index),
+    merged,
+    ...chunks.slice(index + 1, nextIndex),
+    ...chunks.slice(nextIndex + 1),
+  ];
+}
+
+/**
+ * Merges a phrase into the one before it by pinning every word of the later
+ * phrase to its predecessor.
+ */
+export function mergePhrases<T extends EditableChunk>(
+  chunks: T[],
+  laterIndices: number[]
+): T[] {
+  const result = [...chunks];
+  for (const index of laterIndices) {
+    result[index] = setPhraseBreak(result[index], "never");
+  }
+  return result;
+}
+
+/**
+ * Pins a phrase to the words at `indices`: the first starts a phrase, the
+ * others stay with it and the first word after it starts the next one, so
+ * retiming it cannot make automatic grouping move its boundaries.
+ */
+export function pinPhrase<T extends EditableChunk>(chunks: T[], indices: number[]): T[] {
+  if (indices.length === 0) {
+    return chunks;
+  }
+
+  const result = [...chunks];
+  indices.forEach((index, position) => {
+    result[index] = setPhraseBreak(result[index], position === 0 ? "force" : "never");
+  });
+  const nextPhrase = findNextWord(result, indices[indices.length - 1]);
+  if (nextPhrase >= 0) {
+    result[nextPhrase] = setPhraseBreak(result[nextPhrase], "force");
+  }
+  return result;
+}
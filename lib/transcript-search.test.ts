@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { word, type TestWord } from "./test-utils";
+import {
+  DEFAULT_SEARCH_OPTIONS,
+  buildSearchPattern,
+  findTranscriptMatches,
+  replaceTranscriptMatches,
+  type TranscriptSearchOptions,
+} from "./transcript-search";
+
+const catalog = [word("cat", 0, 1), word("catalog", 1, 2)];
+
+const words = [
+  word("Dr.", 0, 0.3),
+  word("smith", 0.3, 0.6),
+  word("met", 0.6, 0.9),
+  word("Mr.", 1, 1.3),
+  word("smith", 1.3, 1.6),
+];
+
+// Finds `query` with the given options and replaces every match, the way
+// Replace all does
+function replaceAll(
+  chunks: TestWord[],
+  query: string,
+  replacement: string,
+  options: Partial<TranscriptSearchOptions> = {}
+): string {
+  const pattern = buildSearchPattern({ ...DEFAULT_SEARCH_OPTIONS, query, ...options });
+  const matches = findTranscriptMatches(chunks, pattern);
+  return replaceTranscriptMatches(chunks, matches, replacement)
+    .map((chunk) => chunk.text)
+    .join("");
+}
+
+describe("replaceTranscriptMatches", () => {
+  it("replaces matches that depend on the text around them", () => {
+    expect(replaceAll(words, "(?<=Dr\\. )smith", "Smith", { regex: true })).toBe(
+      " Dr. Smith met Mr. smith"
+    );
+    expect(replaceAll(words, "smith(?= met)", "Smith", { regex: true })).toBe(
+      " Dr. Smith met Mr. smith"
+    );
+    expect(replaceAll(words, "smith$", "Smith", { regex: true })).toBe(
+      " Dr. smith met Mr. Smith"
+    );
+    expect(replaceAll(words, "^ Dr\\.", " Doctor", { regex: true })).toBe(
+      " Doctor smith met Mr. smith"
+    );
+    expect(replaceAll(catalog, "\\bcat\\b", "dog", { regex: true })).toBe(" dog catalog");
+  });
+
+  it("replaces whole words only where the query is a word of its own", () => {
+    expect(replaceAll(catalog, "cat", "dog", { wholeWord: true })).toBe(" dog catalog");
+  });
+
+  it("expands captures from the match they belong to", () => {
+    expect(replaceAll(words, "(Dr|Mr)\\. (\\w+)", "$2 ($1)", { regex: true })).toBe(
+      " smith (Dr) met smith (Mr)"
+    );
+    expect(replaceAll(words, "(?<title>Dr)\\.", "$<title>$$ $&", { regex: true })).toBe(
+      " Dr$ Dr. smith met Mr. smith"
+    );
+    // No twelfth group, so `$12` is the first group followed by "2"
+    expect(replaceAll(words, "(met)", "$12", { regex: true })).toBe(" Dr. smith met2 Mr. smith");
+  });
+
+  it("keeps the timing of words inside a match and merges a match across words", () => {
+    const pattern = buildSearchPattern({ ...DEFAULT_SEARCH_OPTIONS, query: "smith met" });
+    const matches = findTranscriptMatches(words, pattern);
+    const replaced = replaceTranscriptMatches(words, matches, "smithed");
+
+    expect(replaced.map((chunk) => chunk.text)).toEqual([" Dr.", " smithed", " Mr.", " smith"]);
+    expect(replaced[1].timestamp).toEqual([0.3, 0.9]);
+  });
+});
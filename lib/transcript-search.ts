@@ -0,0 +1,194 @@
+export interface TranscriptSearchOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Treat `query` as a regular expression (replacements may use $1, $<name>)
+  regex: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: TranscriptSearchOptions = {
+  query: "",
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+/**
+ * One match in the transcript text, which is every chunk's text concatenated
+ * (the same text the transcript's `text` field is built from).
+ */
+export interface TranscriptMatch {
+  start: number;
+  end: number;
+  text: string;
+  // Capture groups of the match, so replacements expand `$1`, `$<name>`
+  // without running the pattern again away from its context
+  captures: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+  // Chunks the match overlaps, first to last
+  chunkIndices: number[];
+}
+
+interface SearchableChunk {
+  text: string;
+  timestamp: [number, number];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compiles the search options into a global pattern. Throws when `regex` is
+ * on and the query is not a valid expression.
+ */
+export function buildSearchPattern({
+  query,
+  caseSensitive,
+  wholeWord,
+  regex,
+}: TranscriptSearchOptions): RegExp | null {
+  if (!query) {
+    return null;
+  }
+  const source = regex ? query : escapeRegExp(query);
+  // \b only understands ASCII word characters, so whole words are delimited
+  // with Unicode-aware lookarounds instead
+  const bounded = wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+  return new RegExp(bounded, `gu${caseSensitive ? "" : "i"}`);
+}
+
+// Start offset of every chunk in the concatenated transcript text
+function getChunkOffsets(chunks: SearchableChunk[]): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const chunk of chunks) {
+    offsets.push(offset);
+    offset += chunk.text.length;
+  }
+  return offsets;
+}
+
+export function findTranscriptMatches(
+  chunks: SearchableChunk[],
+  pattern: RegExp | null
+): TranscriptMatch[] {
+  if (!pattern) {
+    return [];
+  }
+
+  const text = chunks.map((chunk) => chunk.text).join("");
+  const offsets = getChunkOffsets(chunks);
+  const matches: TranscriptMatch[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    // Empty matches (e.g. /x*/) cannot be highlighted or replaced usefully
+    if (end === start) {
+      continue;
+    }
+
+    const chunkIndices: number[] = [];
+    offsets.forEach((offset, index) => {
+      const chunkEnd = offset + chunks[index].text.length;
+      if (offset < end && chunkEnd > start) {
+        chunkIndices.push(index);
+      }
+    });
+    matches.push({
+      start,
+      end,
+      text: match[0],
+      captures: match.slice(1),
+      groups: match.groups,
+      chunkIndices,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Expands the `$` patterns of `replacement` for one match the way
+ * `String.prototype.replace` does. `text` is the text the match was found in.
+ */
+function expandReplacement(replacement: string, match: TranscriptMatch, text: string): string {
+  const { captures, groups } = match;
+  return replacement.replace(
+    /\$(?:(\$)|(&)|(`)|(')|(\d\d?)|<([^>]*)>)/g,
+    (
+      token: string,
+      dollar?: string,
+      whole?: string,
+      before?: string,
+      after?: string,
+      digits?: string,
+      name?: string
+    ) => {
+      if (dollar) return "$";
+      if (whole) return match.text;
+      if (before) return text.slice(0, match.start);
+      if (after) return text.slice(match.end);
+      if (name !== undefined) {
+        return groups ? (groups[name] ?? "") : token;
+      }
+      if (digits !== undefined) {
+        // `$12` is group 12 when there is one, otherwise group 1 then "2"
+        const index = Number(digits);
+        if (index >= 1 && index <= captures.length) {
+          return captures[index - 1] ?? "";
+        }
+        const single = Number(digits[0]);
+        if (digits.length === 2 && single >= 1 && single <= captures.length) {
+          return `${captures[single - 1] ?? ""}${digits[1]}`;
+        }
+      }
+      return token;
+    }
+  );
+}
+
+/**
+ * Replaces the given matches. A match inside one chunk only changes that
+ * chunk's text, so every word keeps its timing; a match spanning several
+ * chunks puts the replacement into the first of them, which then covers the
+ * time range of all of them. `$1`, `$<name>` and the other `$` patterns in
+ * `replacement` expand from each match's own captures.
+ */
+export function replaceTranscriptMatches<T extends SearchableChunk>(
+  chunks: T[],
+  matches: TranscriptMatch[],
+  replacement: string
+): T[] {
+  const text = chunks.map((chunk) => chunk.text).join("");
+  const offsets = getChunkOffsets(chunks);
+  const result = [...chunks];
+  const removed = new Set<number>();
+
+  // Later matches first, so earlier offsets stay valid
+  for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+    const [first, ...rest] = match.chunkIndices;
+    if (first === undefined) {
+      continue;
+    }
+    const last = rest.length > 0 ? rest[rest.length - 1] : first;
+    const replaced = expandReplacement(replacement, match, text);
+
+    const head = result[first].text.slice(0, match.start - offsets[first]);
+    const tail = result[last].text.slice(match.end - offsets[last]);
+
+    result[first] = {
+      ...result[first],
+      text: `${head}${replaced}${first === last ? tail : ""}`,
+      timestamp: [result[first].timestamp[0], result[last].timestamp[1]],
+    };
+    if (first !== last) {
+      // Text after the match in the last chunk moves into the first one
+      result[first] = { ...result[first], text: `${result[first].text}${tail}` };
+      rest.forEach((index) => removed.add(index));
+    }
+  }
+
+  return result.filter((_, index) => !removed.has(index));
+}
@@ -0,0 +1,351 @@
+import { describe, expect, it } from "vitest";
+import type { SubtitleStyle } from "@/components/ui/subtitle-styling";
+import type { Speaker } from "./speakers";
+import { cueTexts, word } from "./test-utils";
+import {
+  DEFAULT_PHRASE_GROUPING,
+  SUBTITLE_FORMATS,
+  SUBTITLE_IMPORT_ACCEPT,
+  formatAssTime,
+  getExportCues,
+  processTranscriptChunks,
+  transcriptToAss,
+  transcriptToCsv,
+  transcriptToJson,
+  transcriptToSbv,
+  transcriptToSrt,
+  transcriptToTtml,
+  transcriptToVtt,
+} from "./utils";
+
+// Words a quarter second apart, without punctuation or pauses
+const sentence = (...texts: string[]) =>
+  texts.map((text, i) => word(text, i * 0.25, (i + 1) * 0.25));
+
+describe("processTranscriptChunks", () => {
+  it("returns one chunk per word in word mode", () => {
+    const cues = processTranscriptChunks({ chunks: sentence("a", "b") }, "word");
+    expect(cues).toEqual([
+      { text: " a", timestamp: [0, 0.25], disabled: undefined, speaker: undefined },
+      { text: " b", timestamp: [0.25, 0.5], disabled: undefined, speaker: undefined },
+    ]);
+  });
+
+  it("groups words into phrases with their source indices", () => {
+    const [cue] = processTranscriptChunks({ chunks: sentence("Hello", "world") }, "phrase");
+    expect(cue.text).toBe("Hello world");
+    expect(cue.timestamp).toEqual([0, 0.5]);
+    expect(cue.words?.map((w) => w.sourceIndex)).toEqual([0, 1]);
+  });
+
+  it("skips empty chunks without shifting source indices", () => {
+    const chunks = [word("a", 0, 0.2), word("", 0.2, 0.2), word("b", 0.2, 0.4)];
+    const [cue] = processTranscriptChunks({ chunks }, "phrase");
+    expect(cue.words?.map((w) => w.sourceIndex)).toEqual([0, 2]);
+  });
+
+  it("ends phrases at the grouping limits", () => {
+    const words = sentence("one", "two", "three", "four", "five");
+    expect(cueTexts(words, { ...DEFAULT_PHRASE_GROUPING, maxWords: 2 })).toEqual([
+      "one two",
+      "three four",
+      "five",
+    ]);
+    expect(cueTexts(words, { ...DEFAULT_PHRASE_GROUPING, maxDuration: 0.6 })).toEqual([
+      "one two",
+      "three four",
+      "five",
+    ]);
+    expect(cueTexts([word("Hi", 0, 0.2), word("again", 1, 1.2)])).toEqual(["Hi", "again"]);
+  });
+
+  it("ends phrases after sentence punctuation and at speaker changes", () => {
+    expect(cueTexts(sentence("Yes.", "No"))).toEqual(["Yes.", "No"]);
+    const speakers = [word("a", 0, 0.2, { speaker: "S1" }), word("b", 0.2, 0.4, { speaker: "S2" })];
+    expect(cueTexts(speakers)).toEqual(["a", "b"]);
+  });
+
+  it("lets manual phrase breaks override the automatic rules", () => {
+    const words = sentence("one", "two", "three", "four");
+    words[1].phraseBreak = "force";
+    words[2].phraseBreak = "never";
+    words[3].phraseBreak = "never";
+    expect(cueTexts(words, { ...DEFAULT_PHRASE_GROUPING, maxWords: 1 })).toEqual([
+      "one",
+      "two three four",
+    ]);
+
+    const paused = [word("Hi", 0, 0.2), word("again", 1, 1.2, { phraseBreak: "never" })];
+    expect(cueTexts(paused)).toEqual(["Hi again"]);
+  });
+
+  it("keeps disabled words in phrases of their own, even when pinned", () => {
+    const words = sentence("one", "two", "three");
+    words[1].disabled = true;
+    words[1].phraseBreak = "never";
+    const cues = processTranscriptChunks({ chunks: words }, "phrase");
+    expect(cues.map((cue) => [cue.text, cue.disabled])).toEqual([
+      ["one", false],
+      ["two", true],
+      ["three", false],
+    ]);
+  });
+});
+
+const style: SubtitleStyle = {
+  fontFamily: "var(--font-open-sans), Arial, sans-serif",
+  fontSize: 24,
+  fontWeight: "700",
+  color: "#FFFFFF",
+  backgroundColor: "transparent",
+  borderWidth: 2,
+  borderColor: "#000000",
+  dropShadowIntensity: 0,
+  wordEmphasisEnabled: false,
+};
+
+const speakers: Speaker[] = [
+  { id: "S1", name: "Anna, Jr.", style: { color: "#FFE066" } },
+  { id: "S2", name: "Anna Jr.", style: {} },
+];
+
+// Two phrases by different speakers
+const dialogue = () => [
+  word("Hello", 0, 0.25, { speaker: "S1" }),
+  word("world.", 0.25, 0.5, { speaker: "S1" }),
+  word("Bye.", 1, 1.5, { speaker: "S2" }),
+];
+
+const linesStartingWith = (text: string, prefix: string) =>
+  text.split("\n").filter((line) => line.startsWith(prefix));
+
+describe("formatAssTime", () => {
+  it("writes hours without padding and centiseconds", () => {
+    expect(formatAssTime(3725.456)).toBe("1:02:05.46");
+    expect(formatAssTime(0.999)).toBe("0:00:01.00");
+  });
+});
+
+describe("transcriptToAss", () => {
+  it("writes the script header and the subtitle style scaled from the preview", () => {
+    const ass = transcriptToAss({ chunks: dialogue(), language: "de" }, style, "phrase");
+    expect(ass).toContain("Title: German transcript\nScriptType: v4.00+");
+    expect(ass).toContain("PlayResX: 1920\nPlayResY: 1080");
+    // Bold, a 2px outline without a box, bottom center above the margins
+    expect(linesStartingWith(ass, "Style: Default,")).toEqual([
+      "Style: Default,Open Sans,52,&H00FFFFFF,&H00FFFFFF,&H00000000,&HFF000000," +
+        "-1,0,0,0,100,100,3,0,1,4.3,0,2,96,96,173,1",
+    ]);
+  });
+
+  it("gives each speaker a uniquely named style and tags their cues", () => {
+    const ass = transcriptToAss({ chunks: dialogue(), speakers }, style, "phrase");
+    expect(linesStartingWith(ass, "Style: ").map((line) => line.split(",").slice(0, 4))).toEqual([
+      ["Style: Default", "Open Sans", "52", "&H00FFFFFF"],
+      ["Style: Anna Jr.", "Open Sans", "52", "&H0066E0FF"],
+      ["Style: Anna Jr. S2", "Open Sans", "52", "&H00FFFFFF"],
+    ]);
+    expect(linesStartingWith(ass, "Dialogue: ")).toEqual([
+      "Dialogue: 0,0:00:00.00,0:00:00.50,Anna Jr.,Anna Jr.,0,0,0,,HELLO WORLD.",
+      "Dialogue: 0,0:00:01.00,0:00:01.50,Anna Jr. S2,Anna Jr.,0,0,0,,BYE.",
+    ]);
+  });
+
+  it("adds karaoke timings in phrase mode with word emphasis", () => {
+    const chunks = [word("Hi", 0.5, 0.75), word("there", 1, 1.5)];
+    const ass = transcriptToAss({ chunks }, { ...style, wordEmphasisEnabled: true }, "phrase");
+    // Upcoming words are drawn in the half transparent secondary color
+    expect(linesStartingWith(ass, "Style: ")[0]).toContain(",&H00FFFFFF,&H80FFFFFF,");
+    expect(linesStartingWith(ass, "Dialogue: ")).toEqual([
+      "Dialogue: 0,0:00:00.50,0:00:01.50,Default,,0,0,0,,{\\k50}HI {\\k50}THERE",
+    ]);
+  });
+
+  it("escapes override blocks in the text and uses the portrait resolution", () => {
+    const ass = transcriptToAss(
+      { chunks: [word("{big}\\no", 0, 1)] },
+      style,
+      "word",
+      DEFAULT_PHRASE_GROUPING,
+      "9:16"
+    );
+    expect(ass).toContain("PlayResX: 1080\nPlayResY: 1920");
+    expect(linesStartingWith(ass, "Dialogue: ")[0]).toMatch(/,,\(BIG\)⧵NO$/);
+  });
+});
+
+describe("transcriptToVtt", () => {
+  it("writes cues with voice tags for known speakers", () => {
+    expect(transcriptToVtt({ chunks: dialogue(), speakers }, "phrase")).toBe(
+      "WEBVTT\n\n" +
+        "1\n00:00:00.000 --> 00:00:00.500\n<v Anna, Jr.>Hello world.\n\n" +
+        "2\n00:00:01.000 --> 00:00:01.500\n<v Anna Jr.>Bye.\n"
+    );
+  });
+
+  it("labels translations in the header", () => {
+    const vtt = transcriptToVtt(
+      { chunks: [word("Hi", 0, 1)], language: "de", task: "translate" },
+      "word"
+    );
+    expect(vtt.split("\n")[0]).toBe("WEBVTT - English translation (from German)");
+  });
+
+  describe("with styling", () => {
+    const vtt = transcriptToVtt(
+      { chunks: dialogue(), speakers },
+      "phrase",
+      DEFAULT_PHRASE_GROUPING,
+      { style: { ...style, wordEmphasisEnabled: true } }
+    );
+    const [header, styleBlock, ...cues] = vtt.split("\n\n");
+
+    it("adds one STYLE block without blank lines before the cues", () => {
+      expect(header).toBe("WEBVTT");
+      expect(styleBlock).toMatch(/^STYLE\n::cue \{\n {2}font-family: "Open Sans", Arial, sans-serif;/);
+      expect(styleBlock).toContain("::cue(:future) {\n  opacity: 0.5;\n}");
+      // Only speakers with their own colors get a rule
+      expect(styleBlock).toContain('::cue(v[voice="Anna, Jr."]) {\n  color: #FFE066;');
+      expect(styleBlock).not.toContain('voice="Anna Jr."');
+      expect(cues).toHaveLength(2);
+    });
+
+    it("places cues like the preview and times each word", () => {
+      expect(cues[0]).toBe(
+        "1\n00:00:00.000 --> 00:00:00.500 line:84%,end position:50% size:90% align:center\n" +
+          "<v Anna, Jr.>HELLO <00:00:00.250>WORLD."
+      );
+    });
+  });
+});
+
+describe("transcriptToSrt", () => {
+  it("numbers cues and prefixes the speaker where it changes", () => {
+    const chunks = [...dialogue(), word("again", 2, 2.5, { speaker: "S2" })];
+    expect(transcriptToSrt({ chunks, speakers }, "phrase")).toBe(
+      "1\n00:00:00,000 --> 00:00:00,500\nAnna, Jr.: Hello world.\n\n" +
+        "2\n00:00:01,000 --> 00:00:01,500\nAnna Jr.: Bye.\n\n" +
+        "3\n00:00:02,000 --> 00:00:02,500\nagain\n"
+    );
+  });
+});
+
+describe("transcriptToSbv", () => {
+  it("writes YouTube timing lines", () => {
+    expect(transcriptToSbv({ chunks: dialogue(), speakers }, "phrase")).toBe(
+      "0:00:00.000,0:00:00.500\nAnna, Jr.: Hello world.\n\n" +
+        "0:00:01.000,0:00:01.500\nAnna Jr.: Bye.\n"
+    );
+  });
+});
+
+describe("transcriptToTtml", () => {
+  it("declares speakers as agents and escapes text", () => {
+    const chunks = [word("<Hi> & bye", 0, 0.5, { speaker: "S1" })];
+    const ttml = transcriptToTtml({ chunks, speakers, language: "de" }, "phrase");
+    expect(ttml).toContain('xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="de">');
+    expect(ttml).toContain("<ttm:title>German transcript</ttm:title>");
+    expect(ttml).toContain(
+      '<ttm:agent xml:id="speaker-S1" type="person">\n        <ttm:name type="full">Anna, Jr.</ttm:name>'
+    );
+    expect(ttml).toContain(
+      '<p begin="00:00:00.000" end="00:00:00.500" ttm:agent="speaker-S1">&lt;Hi&gt; &amp; bye</p>'
+    );
+  });
+
+  it("marks translations as English", () => {
+    const ttml = transcriptToTtml({ chunks: dialogue(), language: "de", task: "translate" });
+    expect(ttml).toContain(' xml:lang="en">');
+  });
+});
+
+describe("transcriptToCsv", () => {
+  it("writes a header row and quotes fields that need it", () => {
+    const chunks = [word('Say "hi", then', 0, 0.5, { speaker: "S1" })];
+    expect(transcriptToCsv({ chunks, speakers }, "phrase")).toBe(
+      "\uFEFFStart,End,Speaker,Text\r\n" +
+        '00:00:00.000,00:00:00.500,"Anna, Jr.","Say ""hi"", then"\r\n'
+    );
+  });
+});
+
+describe("transcriptToJson", () => {
+  it("keeps timestamp pairs on one line", () => {
+    const json = transcriptToJson({ chunks: [word("Hi", 0, 0.5)] });
+    expect(json).toContain('"timestamp": [0, 0.5]');
+    expect(JSON.parse(json)).toEqual({ chunks: [word("Hi", 0, 0.5)] });
+  });
+});
+
+describe("SUBTITLE_FORMATS", () => {
+  // TTML needs DOMParser to read back; its reader is covered on its own
+  const formats = SUBTITLE_FORMATS.filter((format) => format.id !== "ttml");
+
+  it.each(formats.map((format) => [format.id, format] as const))(
+    "reads back the cues %s writes",
+    (_, format) => {
+      const text = format.serialize({ chunks: dialogue(), speakers }, { mode: "phrase", style });
+      const cues = processTranscriptChunks(format.parse(text), "phrase");
+      // Words are spread over their cue again, so allow rounding
+      const times = cues.flatMap((cue) => cue.timestamp);
+      expect(times).toHaveLength(4);
+      [0, 0.5, 1, 1.5].forEach((time, index) => expect(times[index]).toBeCloseTo(time));
+      expect(cues[1].text.toLowerCase()).toMatch(/bye\.$/);
+    }
+  );
+
+  it("recognizes formats by content", () => {
+    const detected = (text: string) =>
+      SUBTITLE_FORMATS.find((format) => format.detect?.(text))?.id;
+    expect(detected("WEBVTT\n")).toBe("vtt");
+    expect(detected("[Script Info]\n")).toBe("ass");
+    expect(detected("<?xml")).toBe("ttml");
+    expect(detected('{"chunks": []}')).toBe("json");
+    expect(detected("1\n00:00:00,000 --> 00:00:01,000")).toBeUndefined();
+  });
+
+  it("accepts every format's extension on import", () => {
+    expect(SUBTITLE_IMPORT_ACCEPT.split(",")).toEqual([
+      ".srt",
+      ".vtt",
+      ".ass",
+      ".ttml",
+      ".sbv",
+      ".csv",
+      ".json",
+      ".dfxp",
+      ".ssa",
+    ]);
+  });
+});
+
+describe("getExportCues", () => {
+  it("groups cues like the preview and leaves out disabled ones", () => {
+    const chunks = [
+      word("Keep", 0, 0.25),
+      word("this.", 0.25, 0.5),
+      word("Drop", 0.5, 0.75, { disabled: true }),
+      word("Also", 1, 1.25),
+    ];
+    expect(getExportCues({ chunks }, "phrase").map((cue) => cue.text)).toEqual([
+      "Keep this.",
+      "Also",
+    ]);
+    expect(getExportCues({ chunks }, "word").map((cue) => cue.text)).toEqual([
+      " Keep",
+      " this.",
+      " Also",
+    ]);
+  });
+
+  it.each(SUBTITLE_FORMATS.map((format) => [format.id, format] as const))(
+    "is what %s exports",
+    (id, format) => {
+      const chunks = [word("Shown", 0, 0.5), word("Hidden", 1, 1.5, { disabled: true })];
+      const text = format.serialize({ chunks }, { mode: "phrase", style });
+      expect(text.toLowerCase()).toContain("shown");
+      // The JSON transcript keeps everything, to be edited again later
+      expect(text.toLowerCase().includes("hidden")).toBe(id === "json");
+    }
+  );
+});
@@ -1,5 +1,20 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { getTranscriptLabel, type TranscriptionTask } from "@/lib/languages";
+import { getSpeakerName, resolveSpeakerStyle, type Speaker } from "@/lib/speakers";
+import type { SubtitleStyle } from "@/components/ui/subtitle-styling";
+import type { PhraseBreak } from "@/lib/transcript-editing";
+import type { TranscriptionResult } from "@/hooks/useTranscription";
+import {
+  cuesToTranscript,
+  parseAss,
+  parseCsv,
+  parseSbv,
+  parseSrt,
+  parseTranscriptJson,
+  parseTtml,
+  parseVtt,
+} from "@/lib/subtitle-import";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -14,6 +29,35 @@ export function formatTime(seconds: number): string {
   return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
 }
 
+/**
+ * Format a duration limit for display (e.g. "90 minutes", "2 hours")
+ */
+export function formatDurationLimit(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+/**
+ * Format a byte count for display (e.g. "74.3 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unitIndex]}`;
+}
+
 /**
  * Format seconds into SRT timestamp format (HH:MM:SS,MS)
  */
@@ -50,35 +94,71 @@ export interface ProcessedWord {
   text: string;
   timestamp: [number, number];
   disabled?: boolean;
+  speaker?: string;
+  // Index of the source chunk this word came from, so phrase edits can be
+  // written back to the word chunks
+  sourceIndex?: number;
 }
 
 export interface ProcessedChunk {
   text: string;
   timestamp: [number, number];
   disabled?: boolean;
+  speaker?: string;
   words?: ProcessedWord[];
 }
 
+// Words the decoder gave a lower probability than this are flagged for
+// proofreading
+export const LOW_CONFIDENCE_PROBABILITY = 0.5;
+
+export function isLowConfidence(chunk: { probability?: number }): boolean {
+  return chunk.probability !== undefined && chunk.probability < LOW_CONFIDENCE_PROBABILITY;
+}
+
 interface SourceTranscript {
   chunks: Array<{
     text: string;
     timestamp: [number, number];
     disabled?: boolean;
+    speaker?: string;
+    phraseBreak?: PhraseBreak;
   }>;
+  speakers?: Speaker[];
 }
 
+/**
+ * Limits for automatic phrase grouping; manual `phraseBreak` markers on word
+ * chunks override them.
+ */
+export interface PhraseGroupingOptions {
+  maxWords: number;
+  // Longest phrase in seconds
+  maxDuration: number;
+  // Pause in seconds that always starts a new phrase
+  maxGap: number;
+}
+
+export const DEFAULT_PHRASE_GROUPING: PhraseGroupingOptions = {
+  maxWords: 6,
+  maxDuration: 3.0,
+  maxGap: 0.5,
+};
+
 /**
  * Process transcript chunks according to the mode (word/phrase)
  */
 export function processTranscriptChunks(
   transcript: SourceTranscript,
-  mode: "word" | "phrase" = "word"
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING
 ): ProcessedChunk[] {
   if (mode === "word") {
     return transcript.chunks.map((chunk) => ({
       text: chunk.text,
       timestamp: chunk.timestamp,
       disabled: chunk.disabled,
+      speaker: chunk.speaker,
     }));
   }
 
@@ -90,13 +170,12 @@ export function processTranscriptChunks(
     start: number;
     end: number;
     disabled: boolean;
+    speaker?: string;
   } | null;
 
   let currentGroup: PhraseAccumulator = null;
 
-  const MAX_PHRASE_WORDS = 6;
-  const MAX_PHRASE_DURATION = 3.0;
-  const MAX_GAP = 0.5;
+  const { maxWords, maxDuration, maxGap } = grouping;
 
   const flushGroup = () => {
     if (!currentGroup) {
@@ -107,6 +186,7 @@ export function processTranscriptChunks(
       text: currentGroup.texts.join(" "),
       timestamp: [currentGroup.start, currentGroup.end],
       disabled: currentGroup.disabled,
+      speaker: currentGroup.speaker,
       words: currentGroup.words,
     });
 
@@ -126,6 +206,8 @@ export function processTranscriptChunks(
       text: trimmedText,
       timestamp: [start, end],
       disabled: chunk.disabled,
+      speaker: chunk.speaker,
+      sourceIndex: index,
     };
 
     if (!currentGroup) {
@@ -135,14 +217,16 @@ export function processTranscriptChunks(
         start,
         end,
         disabled: chunkDisabled,
+        speaker: chunk.speaker,
       };
       return;
     }
 
     const timeSinceLastWord = start - currentGroup.end;
-    const wouldExceedWordLimit = currentGroup.texts.length >= MAX_PHRASE_WORDS;
-    const wouldExceedDuration = end - currentGroup.start > MAX_PHRASE_DURATION;
+    const wouldExceedWordLimit = currentGroup.texts.length >= maxWords;
+    const wouldExceedDuration = end - currentGroup.start > maxDuration;
     const crossesDisabledBoundary = chunkDisabled !== currentGroup.disabled;
+    const changesSpeaker = chunk.speaker !== currentGroup.speaker;
     const endsWithPunctuation = /[.!?]$/.test(
       currentGroup.texts[currentGroup.texts.length - 1]
     );
@@ -150,14 +234,21 @@ export function processTranscriptChunks(
       currentGroup.texts[currentGroup.texts.length - 1]
     );
 
-    const shouldEndPhrase =
-      crossesDisabledBoundary ||
-      timeSinceLastWord > MAX_GAP ||
+    const endsAutomatically =
+      changesSpeaker ||
+      timeSinceLastWord > maxGap ||
       wouldExceedWordLimit ||
       wouldExceedDuration ||
       endsWithPunctuation ||
       (endsWithCommaLike && currentGroup.texts.length >= 3);
 
+    // Manual splits and merges win over everything but the disabled state,
+    // which the preview relies on to skip whole phrases
+    const shouldEndPhrase =
+      crossesDisabledBoundary ||
+      chunk.phraseBreak === "force" ||
+      (chunk.phraseBreak !== "never" && endsAutomatically);
+
     if (shouldEndPhrase) {
       flushGroup();
       currentGroup = {
@@ -166,6 +257,7 @@ export function processTranscriptChunks(
         start,
         end,
         disabled: chunkDisabled,
+        speaker: chunk.speaker,
       };
     } else {
       currentGroup.texts.push(trimmedText);
@@ -184,50 +276,687 @@ export function processTranscriptChunks(
 }
 
 /**
- * Convert transcript data to SRT format
+ * The cues every subtitle export writes: grouped like the preview, without
+ * disabled ones, which the burned-in subtitles leave out as well.
+ */
+export function getExportCues(
+  transcript: SourceTranscript,
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING
+): ProcessedChunk[] {
+  return processTranscriptChunks(transcript, mode, grouping).filter((chunk) => !chunk.disabled);
+}
+
+/**
+ * Convert transcript data to SRT format. Cues where the speaker changes are
+ * prefixed with the speaker name ("Anna: ...").
  */
 export function transcriptToSrt(
-  transcript: {
-    chunks: Array<{
-      text: string;
-      timestamp: [number, number];
-    }>;
-  },
-  mode: "word" | "phrase" = "word"
+  transcript: SourceTranscript,
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING
 ): string {
-  const processedChunks = processTranscriptChunks(transcript, mode);
+  const processedChunks = getExportCues(transcript, mode, grouping);
   return processedChunks
     .map((chunk, index) => {
       const [start, end] = chunk.timestamp;
+      const text = getSpeakerPrefixedText(transcript.speakers, processedChunks, index);
       return `${index + 1}\n${formatSrtTime(start)} --> ${formatSrtTime(
         end
-      )}\n${chunk.text}\n`;
+      )}\n${text}\n`;
     })
     .join("\n");
 }
 
+// Cue text for formats without speaker markup, prefixed with the speaker
+// name ("Anna: ...") where the speaker changes
+function getSpeakerPrefixedText(
+  speakers: Speaker[] | undefined,
+  chunks: ProcessedChunk[],
+  index: number
+): string {
+  const chunk = chunks[index];
+  const speakerName =
+    chunk.speaker !== chunks[index - 1]?.speaker
+      ? getSpeakerName(speakers, chunk.speaker)
+      : undefined;
+  return speakerName ? `${speakerName}: ${chunk.text}` : chunk.text;
+}
+
+/**
+ * Opt-in styling for WebVTT export: the subtitle style as a `STYLE` block and
+ * cue settings that place cues where the preview does.
+ */
+export interface VttStyling {
+  style: SubtitleStyle;
+  ratio?: "16:9" | "9:16";
+}
+
 /**
- * Convert transcript data to WebVTT format
+ * Convert transcript data to WebVTT format. Translations are labelled in the
+ * WEBVTT header line so players and editors can tell them apart, and cues with
+ * a known speaker are wrapped in a voice tag (`<v Anna>`). With `styling`,
+ * phrase cues also carry inline word timestamps so `::cue(:past)` and
+ * `::cue(:future)` can follow the spoken word.
  */
 export function transcriptToVtt(
-  transcript: {
-    chunks: Array<{
-      text: string;
-      timestamp: [number, number];
-    }>;
+  transcript: SourceTranscript & {
+    language?: string;
+    task?: TranscriptionTask;
   },
-  mode: "word" | "phrase" = "word"
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING,
+  styling?: VttStyling
 ): string {
-  const header = "WEBVTT\n\n";
-  const processedChunks = processTranscriptChunks(transcript, mode);
+  const header =
+    transcript.task === "translate"
+      ? `WEBVTT - ${getTranscriptLabel(transcript)}\n\n`
+      : "WEBVTT\n\n";
+  const styleBlock = styling ? `${getVttStyleBlock(transcript, styling)}\n` : "";
+  const settings = styling ? ` ${getVttCueSettings(styling.ratio)}` : "";
+  const processedChunks = getExportCues(transcript, mode, grouping);
   const cues = processedChunks
     .map((chunk, index) => {
       const [start, end] = chunk.timestamp;
+      const speakerName = getSpeakerName(transcript.speakers, chunk.speaker);
+      const body = styling ? getStyledVttCueText(chunk) : chunk.text;
+      const text = speakerName
+        ? `<v ${escapeVttText(speakerName)}>${body}`
+        : body;
       return `${index + 1}\n${formatVttTime(start)} --> ${formatVttTime(
         end
-      )}\n${chunk.text}\n`;
+      )}${settings}\n${text}\n`;
     })
     .join("\n");
 
-  return header + cues;
+  return header + styleBlock + cues;
+}
+
+// The preview's caption box: its bottom edge and width, as frame percentages
+function getVttCueSettings(ratio: "16:9" | "9:16" = "16:9"): string {
+  return ratio === "9:16"
+    ? "line:92%,end position:50% size:85% align:center"
+    : "line:84%,end position:50% size:90% align:center";
+}
+
+// Upper case like the preview, with a timestamp before every word after the
+// first; timestamps must rise strictly inside the cue, so others are dropped
+function getStyledVttCueText(chunk: ProcessedChunk): string {
+  const [start, end] = chunk.timestamp;
+  if (!chunk.words || chunk.words.length === 0) {
+    return escapeVttText(chunk.text.toUpperCase());
+  }
+
+  let previous = start;
+  return chunk.words
+    .map((word, index) => {
+      const text = escapeVttText(word.text.trim().toUpperCase());
+      const [wordStart] = word.timestamp;
+      if (index === 0 || wordStart <= previous || wordStart >= end) {
+        return text;
+      }
+      previous = wordStart;
+      return `<${formatVttTime(wordStart)}>${text}`;
+    })
+    .join(" ");
+}
+
+/**
+ * A `STYLE` block for the subtitle style. Sizes are in `vh`: the preview
+ * picks pixel sizes for a 500px tall frame, and players show cues over the
+ * video, which fills the viewport in full screen. Speakers with their own
+ * colors get a rule for their voice tag.
+ */
+function getVttStyleBlock(transcript: SourceTranscript, { style }: VttStyling): string {
+  // One preview pixel, relative to the frame height
+  const unit = (pixels: number) => `${Math.round(pixels * 0.2 * 100) / 100}vh`;
+
+  const getTextShadow = (entry: SubtitleStyle): string => {
+    const shadows: string[] = [];
+    if (entry.borderWidth > 0) {
+      const width = unit(Math.max(0.5, entry.borderWidth));
+      for (const [x, y] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+        shadows.push(
+          `${x < 0 ? "-" : ""}${width} ${y < 0 ? "-" : ""}${width} 0 ${entry.borderColor}`
+        );
+      }
+    }
+    if (entry.dropShadowIntensity > 0) {
+      shadows.push(
+        `${unit(2)} ${unit(2)} ${unit(Math.max(2, entry.dropShadowIntensity * 4))} rgba(0, 0, 0, ${Math.min(1, entry.dropShadowIntensity)})`
+      );
+    }
+    return shadows.length > 0 ? shadows.join(", ") : "none";
+  };
+
+  const fontName = getFontFamilyName(style.fontFamily);
+  const fallback = style.fontFamily.split(",").slice(1).join(",").trim();
+  const rules = [
+    `::cue {
+  font-family: "${fontName}"${fallback ? `, ${fallback}` : ""};
+  font-size: ${unit(style.fontSize)};
+  font-weight: ${style.fontWeight};
+  color: ${style.color};
+  background-color: ${style.backgroundColor};
+  text-shadow: ${getTextShadow(style)};
+}`,
+  ];
+
+  if (style.wordEmphasisEnabled) {
+    // Words fill in as they are spoken, like the ASS karaoke export
+    rules.push(
+      `::cue(:past) {
+  opacity: 1;
+}`,
+      `::cue(:future) {
+  opacity: 0.5;
+}`
+    );
+  }
+
+  for (const speaker of transcript.speakers ?? []) {
+    if (Object.keys(speaker.style).length === 0) {
+      continue;
+    }
+    const speakerStyle = resolveSpeakerStyle(style, transcript.speakers, speaker.id);
+    const name = JSON.stringify(getSpeakerName(transcript.speakers, speaker.id));
+    rules.push(`::cue(v[voice=${name}]) {
+  color: ${speakerStyle.color};
+  background-color: ${speakerStyle.backgroundColor};
+  text-shadow: ${getTextShadow(speakerStyle)};
+}`);
+  }
+
+  // A blank line would end the block, so rules follow each other directly
+  return `STYLE\n${rules.join("\n")}\n`;
+}
+
+// Voice tag annotations end at ">" and may not contain cue markup
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Format seconds into ASS timestamp format (H:MM:SS.CC)
+ */
+export function formatAssTime(seconds: number): string {
+  const centiseconds = Math.round(seconds * 100);
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const cs = centiseconds % 100;
+
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${secs
+    .toString()
+    .padStart(2, "0")}.${cs.toString().padStart(2, "0")}`;
+}
+
+// Script resolution per aspect ratio, and the preview box the style's pixel
+// sizes are chosen in (the same reference the burned-in export scales from)
+const ASS_PLAY_RES = {
+  "16:9": { width: 1920, height: 1080 },
+  "9:16": { width: 1080, height: 1920 },
+} as const;
+const PREVIEW_REFERENCE = { width: 281, height: 500 };
+
+/**
+ * Converts a CSS color ("#RGB", "#RRGGBB", "rgb()", "rgba()" or
+ * "transparent") to ASS `&HAABBGGRR`, where alpha 00 is opaque.
+ */
+function toAssColor(color: string, opacity: number = 1): string {
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  let alpha = color === "transparent" ? 0 : opacity;
+
+  const hex = color.match(/^#([\da-f]{3}|[\da-f]{6})$/i)?.[1];
+  const rgb = color.match(/^rgba?\(([^)]+)\)$/i)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.replace(/./g, "$&$&") : hex;
+    [red, green, blue] = [0, 2, 4].map((offset) => parseInt(full.slice(offset, offset + 2), 16));
+  } else if (rgb) {
+    const parts = rgb.split(",").map((part) => parseFloat(part));
+    [red, green, blue] = parts;
+    alpha *= parts[3] ?? 1;
+  }
+
+  const byte = (value: number) =>
+    Math.round(Math.min(255, Math.max(0, value || 0)))
+      .toString(16)
+      .toUpperCase()
+      .padStart(2, "0");
+  return `&H${byte(255 * (1 - alpha))}${byte(blue)}${byte(green)}${byte(red)}`;
+}
+
+// The first family of a CSS font stack, with the app's font variables
+// resolved: "var(--font-open-sans), Arial, sans-serif" -> "Open Sans"
+function getFontFamilyName(fontFamily: string): string {
+  const first = fontFamily.split(",")[0].trim();
+  const variable = first.match(/^var\(--font-([\w-]+)\)$/)?.[1];
+  if (variable) {
+    return variable.replace(/(^|-)(\w)/g, (_, dash: string, letter: string) =>
+      `${dash ? " " : ""}${letter.toUpperCase()}`
+    );
+  }
+  return first.replace(/['"]/g, "") || "Arial";
+}
+
+// Braces open override blocks and backslashes start escapes in dialogue text
+function escapeAssText(text: string): string {
+  return text.replace(/\{/g, "(").replace(/\}/g, ")").replace(/\\/g, "⧵");
+}
+
+// Style and actor names are comma-separated fields, so commas are dropped
+function toAssStyleName(name: string): string {
+  return name.replace(/,/g, " ").replace(/\s+/g, " ").trim() || "Default";
+}
+
+/**
+ * Convert transcript data to Advanced SubStation Alpha. The subtitle style
+ * becomes the `Default` style, each speaker gets a style with their color
+ * overrides, and sizes are scaled from the preview to the script resolution.
+ * In phrase mode with word emphasis on, words carry karaoke `\k` timings:
+ * upcoming words are drawn at half opacity and fill in as they are spoken.
+ */
+export function transcriptToAss(
+  transcript: SourceTranscript & {
+    language?: string;
+    task?: TranscriptionTask;
+  },
+  style: SubtitleStyle,
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING,
+  ratio: "16:9" | "9:16" = "16:9"
+): string {
+  const { width, height } = ASS_PLAY_RES[ratio];
+  const scale = Math.min(
+    width / PREVIEW_REFERENCE.width,
+    height / PREVIEW_REFERENCE.height
+  );
+  const isPortrait = ratio === "9:16";
+  const karaoke = mode === "phrase" && style.wordEmphasisEnabled;
+
+  const formatStyle = (name: string, entry: SubtitleStyle): string => {
+    const hasBox = entry.backgroundColor !== "transparent";
+    const fields = [
+      toAssStyleName(name),
+      getFontFamilyName(entry.fontFamily),
+      Math.round(entry.fontSize * scale),
+      toAssColor(entry.color),
+      toAssColor(entry.color, karaoke ? 0.5 : 1),
+      // With an opaque box (BorderStyle 3) the outline color fills the box
+      toAssColor(hasBox ? entry.backgroundColor : entry.borderColor),
+      hasBox
+        ? toAssColor(entry.backgroundColor)
+        : toAssColor("#000000", Math.min(1, entry.dropShadowIntensity)),
+      // Bold, Italic, Underline, StrikeOut
+      parseInt(entry.fontWeight, 10) >= 600 ? -1 : 0,
+      0,
+      0,
+      0,
+      // ScaleX, ScaleY, Spacing (the preview's 0.05em letter spacing), Angle
+      100,
+      100,
+      Math.round(entry.fontSize * scale * 0.05),
+      0,
+      hasBox ? 3 : 1,
+      // Outline, or the box padding when there is a box
+      hasBox ? Math.round(8 * scale) : Math.round(entry.borderWidth * scale * 10) / 10,
+      entry.dropShadowIntensity > 0 ? Math.round(2 * scale) : 0,
+      // Bottom center, inside the preview's caption width and offset
+      2,
+      Math.round(width * (isPortrait ? 0.075 : 0.05)),
+      Math.round(width * (isPortrait ? 0.075 : 0.05)),
+      Math.round(height * (isPortrait ? 0.08 : 0.16)),
+      1,
+    ];
+    return `Style: ${fields.join(",")}`;
+  };
+
+  const speakers = transcript.speakers ?? [];
+  // Style names must be unique; a repeated speaker name gets its id appended
+  const usedNames = new Set(["Default"]);
+  const styleNames = new Map(
+    speakers.map((speaker) => {
+      let name = toAssStyleName(getSpeakerName(speakers, speaker.id)!);
+      if (usedNames.has(name)) {
+        name = `${name} ${speaker.id}`;
+      }
+      usedNames.add(name);
+      return [speaker.id, name];
+    })
+  );
+  const styles = [
+    formatStyle("Default", style),
+    ...speakers.map((speaker) =>
+      formatStyle(styleNames.get(speaker.id)!, resolveSpeakerStyle(style, speakers, speaker.id))
+    ),
+  ];
+
+  const events = getExportCues(transcript, mode, grouping).map((chunk) => {
+    const [start, end] = chunk.timestamp;
+    let text: string;
+    if (karaoke && chunk.words && chunk.words.length > 0) {
+      // Each word runs until the next starts, rounded against the cue start
+      // so the durations add up without drift
+      const boundaries = chunk.words.map((word) => Math.round((word.timestamp[0] - start) * 100));
+      boundaries.push(Math.round((end - start) * 100));
+      text =
+        (boundaries[0] > 0 ? `{\\k${boundaries[0]}}` : "") +
+        chunk.words
+          .map(
+            (word, index) =>
+              `{\\k${Math.max(0, boundaries[index + 1] - boundaries[index])}}${escapeAssText(
+                word.text.trim().toUpperCase()
+              )}`
+          )
+          .join(" ");
+    } else {
+      text = escapeAssText(chunk.text.trim().toUpperCase());
+    }
+
+    const styleName = (chunk.speaker && styleNames.get(chunk.speaker)) || "Default";
+    const speakerName = chunk.speaker ? toAssStyleName(getSpeakerName(speakers, chunk.speaker)!) : "";
+    return `Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},${styleName},${speakerName},0,0,0,,${text}`;
+  });
+
+  return [
+    "[Script Info]",
+    `Title: ${getTranscriptLabel(transcript)}`,
+    "ScriptType: v4.00+",
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    ...styles,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Format seconds into SBV timestamp format (H:MM:SS.MS)
+ */
+export function formatSbvTime(seconds: number): string {
+  return formatVttTime(seconds).replace(/^0(?=\d:)/, "");
+}
+
+/**
+ * Convert transcript data to SBV, YouTube's legacy caption upload format.
+ */
+export function transcriptToSbv(
+  transcript: SourceTranscript,
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING
+): string {
+  const processedChunks = getExportCues(transcript, mode, grouping);
+  return processedChunks
+    .map((chunk, index) => {
+      const [start, end] = chunk.timestamp;
+      const text = getSpeakerPrefixedText(transcript.speakers, processedChunks, index);
+      return `${formatSbvTime(start)},${formatSbvTime(end)}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Speaker ids are used as xml:id values, which must be XML names
+function getTtmlAgentId(speakerId: string): string {
+  return `speaker-${speakerId.replace(/[^\w.-]/g, "_")}`;
+}
+
+/**
+ * Convert transcript data to TTML (DFXP). Speakers are declared as
+ * `ttm:agent`s in the head and referenced from their cues.
+ */
+export function transcriptToTtml(
+  transcript: SourceTranscript & {
+    language?: string;
+    task?: TranscriptionTask;
+  },
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING
+): string {
+  const language = transcript.task === "translate" ? "en" : transcript.language;
+  const agents = (transcript.speakers ?? []).map(
+    (speaker) =>
+      `      <ttm:agent xml:id="${getTtmlAgentId(speaker.id)}" type="person">\n` +
+      `        <ttm:name type="full">${escapeXml(
+        getSpeakerName(transcript.speakers, speaker.id)!
+      )}</ttm:name>\n` +
+      "      </ttm:agent>"
+  );
+  const paragraphs = getExportCues(transcript, mode, grouping).map((chunk) => {
+    const [start, end] = chunk.timestamp;
+    const agent = chunk.speaker ? ` ttm:agent="${getTtmlAgentId(chunk.speaker)}"` : "";
+    return `      <p begin="${formatVttTime(start)}" end="${formatVttTime(end)}"${agent}>${escapeXml(
+      chunk.text.trim()
+    )}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata"${
+      language ? ` xml:lang="${escapeXml(language)}"` : ""
+    }>`,
+    "  <head>",
+    "    <metadata>",
+    `      <ttm:title>${escapeXml(getTranscriptLabel(transcript))}</ttm:title>`,
+    ...agents,
+    "    </metadata>",
+    "  </head>",
+    "  <body>",
+    "    <div>",
+    ...paragraphs,
+    "    </div>",
+    "  </body>",
+    "</tt>",
+    "",
+  ].join("\n");
+}
+
+// Quotes a CSV field when it holds a separator, quote or line break
+function escapeCsvField(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Convert transcript data to CSV, one cue per row, for translation in a
+ * spreadsheet. Starts with a byte order mark so Excel reads it as UTF-8.
+ */
+export function transcriptToCsv(
+  transcript: SourceTranscript,
+  mode: "word" | "phrase" = "word",
+  grouping: PhraseGroupingOptions = DEFAULT_PHRASE_GROUPING
+): string {
+  const rows = getExportCues(transcript, mode, grouping).map((chunk) => {
+    const [start, end] = chunk.timestamp;
+    return [
+      formatVttTime(start),
+      formatVttTime(end),
+      getSpeakerName(transcript.speakers, chunk.speaker) ?? "",
+      chunk.text.trim(),
+    ]
+      .map(escapeCsvField)
+      .join(",");
+  });
+
+  return `\uFEFF${["Start,End,Speaker,Text", ...rows].join("\r\n")}\r\n`;
+}
+
+/**
+ * The transcript as indented JSON, with timestamp pairs kept on one line.
+ */
+export function transcriptToJson(transcript: object): string {
+  return JSON.stringify(transcript, null, 2).replace(
+    /( {4}"timestamp": )\[\s+(\S+)\s+(\S+)\s+\]/gm,
+    "$1[$2 $3]"
+  );
+}
+
+type ExportableTranscript = SourceTranscript & {
+  language?: string;
+  task?: TranscriptionTask;
+};
+
+export interface SubtitleExportOptions {
+  mode: "word" | "phrase";
+  grouping?: PhraseGroupingOptions;
+  // Used by the formats that carry styling
+  style: SubtitleStyle;
+  ratio?: "16:9" | "9:16";
+}
+
+/**
+ * A caption format: how to write a transcript in it and how to read one
+ * back. `detect` recognizes the format by content when the extension does
+ * not say.
+ */
+export interface SubtitleFormat {
+  id: string;
+  label: string;
+  description: string;
+  // Including the dot; formats sharing one are told apart by `baseName`
+  extension: string;
+  mimeType: string;
+  // Download name before the extension, "subtitles" by default
+  baseName?: string;
+  serialize: (transcript: ExportableTranscript, options: SubtitleExportOptions) => string;
+  parse: (text: string) => TranscriptionResult;
+  detect?: (text: string) => boolean;
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = [
+  {
+    id: "srt",
+    label: "SRT",
+    description: "SubRip, understood by nearly every player and editor",
+    extension: ".srt",
+    mimeType: "text/plain",
+    serialize: (transcript, { mode, grouping }) => transcriptToSrt(transcript, mode, grouping),
+    parse: (text) => cuesToTranscript(parseSrt(text)),
+  },
+  {
+    id: "vtt",
+    label: "WebVTT",
+    description: "Web captions with speaker voice tags",
+    extension: ".vtt",
+    mimeType: "text/vtt",
+    serialize: (transcript, { mode, grouping }) => transcriptToVtt(transcript, mode, grouping),
+    parse: (text) => cuesToTranscript(parseVtt(text)),
+    detect: (text) => text.startsWith("WEBVTT"),
+  },
+  {
+    id: "styled-vtt",
+    label: "Styled WebVTT",
+    description: "WebVTT with the subtitle styling, cue placement and word timing",
+    extension: ".vtt",
+    mimeType: "text/vtt",
+    baseName: "subtitles.styled",
+    serialize: (transcript, { mode, grouping, style, ratio }) =>
+      transcriptToVtt(transcript, mode, grouping, { style, ratio }),
+    parse: (text) => cuesToTranscript(parseVtt(text)),
+  },
+  {
+    id: "ass",
+    label: "ASS",
+    description: "Advanced SubStation Alpha, with the subtitle styling",
+    extension: ".ass",
+    mimeType: "text/x-ssa",
+    serialize: (transcript, { mode, grouping, style, ratio }) =>
+      transcriptToAss(transcript, style, mode, grouping, ratio),
+    parse: (text) => cuesToTranscript(parseAss(text)),
+    detect: (text) => text.startsWith("[Script Info]"),
+  },
+  {
+    id: "ttml",
+    label: "TTML / DFXP",
+    description: "Timed Text Markup, for streaming services",
+    extension: ".ttml",
+    mimeType: "application/ttml+xml",
+    serialize: (transcript, { mode, grouping }) => transcriptToTtml(transcript, mode, grouping),
+    parse: (text) => cuesToTranscript(parseTtml(text)),
+    detect: (text) => text.startsWith("<"),
+  },
+  {
+    id: "sbv",
+    label: "SBV",
+    description: "YouTube's legacy caption upload format",
+    extension: ".sbv",
+    mimeType: "text/plain",
+    serialize: (transcript, { mode, grouping }) => transcriptToSbv(transcript, mode, grouping),
+    parse: (text) => cuesToTranscript(parseSbv(text)),
+  },
+  {
+    id: "csv",
+    label: "CSV",
+    description: "One cue per row, for translating in a spreadsheet",
+    extension: ".csv",
+    mimeType: "text/csv",
+    serialize: (transcript, { mode, grouping }) => transcriptToCsv(transcript, mode, grouping),
+    parse: (text) => cuesToTranscript(parseCsv(text)),
+  },
+  {
+    id: "json",
+    label: "JSON",
+    description: "The full transcript, with word timings, speakers and edits",
+    extension: ".json",
+    mimeType: "application/json",
+    baseName: "transcript",
+    serialize: (transcript) => transcriptToJson(transcript),
+    parse: parseTranscriptJson,
+    detect: (text) => text.startsWith("{"),
+  },
+];
+
+// Extensions the import picker offers
+export const SUBTITLE_IMPORT_ACCEPT = [
+  ...new Set(SUBTITLE_FORMATS.map((format) => format.extension)),
+  // DFXP is TTML under its older name
+  ".dfxp",
+  ".ssa",
+].join(",");
+
+/**
+ * Parses a caption file in any registered format, picked by extension and,
+ * failing that, by content, with SRT as the last resort.
+ */
+export async function importSubtitleFile(file: File): Promise<TranscriptionResult> {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+  const extension = name
+    .slice(name.lastIndexOf("."))
+    .replace(/^\.dfxp$/, ".ttml")
+    .replace(/^\.ssa$/, ".ass");
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+
+  const format =
+    SUBTITLE_FORMATS.find((entry) => entry.extension === extension) ??
+    SUBTITLE_FORMATS.find((entry) => entry.detect?.(trimmed)) ??
+    SUBTITLE_FORMATS.find((entry) => entry.id === "srt")!;
+  return format.parse(text);
+}
+
+/**
+ * Base file name for subtitle downloads; translations get their own suffix so
+ * they are not mistaken for a transcript of the original audio.
+ */
+export function getExportFileBaseName(
+  transcript: { task?: TranscriptionTask },
+  baseName: string = "subtitles"
+): string {
+  return transcript.task === "translate" ? `${baseName}.en-translation` : baseName;
 }